@@ -1,22 +1,49 @@
-import { streamText, convertToModelMessages, smoothStream, stepCountIs, type StepResult } from 'ai';
+import {
+  asSchema,
+  jsonSchema,
+  streamText,
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  isToolUIPart,
+  smoothStream,
+  stepCountIs,
+  type JSONValue,
+  type StepResult,
+  type ToolCallOptions,
+  type UIMessage,
+  type UIMessageChunk,
+  type UIMessageStreamWriter,
+} from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { z } from 'zod';
-import { AgentChatRouteConfig } from './config';
+import { AgentChatRouteConfig, AuthPrincipal, ChatStorage, Conversation, ToolCallProgress, ToolCallStatus, ToolModelOutput } from './config';
+import { canRecordConversationOwners, validatesOwnInput, type ToolsResolver } from './config-server';
+import { resolveToolApproval } from './tool-approval';
+import { generateConversationTitle } from './conversation-title';
+import { markMessageInterrupted } from './message-interruption';
+import type { StreamStore } from './resumable-stream';
 
 const chatRequestSchema = z.object({
   messages: z.array(z.any()), // AI SDK message format
   conversation_id: z.string().optional(),
   metadata: z.any().optional(), // For extracting conversation_id from client
   data: z.any().optional(), // For data sent via useChat append
+  trigger: z.enum(['submit-message', 'regenerate-message']).optional(), // Forwarded by prepareSendMessagesRequest
+  messageId: z.string().optional(), // Message being replaced or regenerated
 });
 
 export class ChatRequest {
   public readonly messages: any[];
   public readonly conversation_id?: string;
+  public readonly trigger?: 'submit-message' | 'regenerate-message';
+  public readonly messageId?: string;
 
   constructor(data: unknown) {
     const parsed = chatRequestSchema.parse(data);
     this.messages = parsed.messages;
+    this.trigger = parsed.trigger;
+    this.messageId = parsed.messageId;
 
     // Extract conversation_id from multiple possible locations
     this.conversation_id = parsed.conversation_id ||
@@ -34,51 +61,184 @@ export class ChatRequest {
   }
 }
 
-export async function streamMessage<TTools extends Record<string, any>>(config: AgentChatRouteConfig<TTools>, chatRequest: ChatRequest, req?: Request) {
-  const is_authenticated = await config.auth_func()
-  if (!is_authenticated) {
+// Principal used when auth_func returns plain `true`
+const ANONYMOUS_PRINCIPAL: AuthPrincipal = { userId: 'anonymous' };
+
+// Resolve the caller via auth_func, returns null when the request is not authenticated
+export async function authenticate<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  req: Request
+): Promise<AuthPrincipal | null> {
+  const result = await config.auth_func(req);
+  if (!result) {
+    return null;
+  }
+  return result === true ? ANONYMOUS_PRINCIPAL : result;
+}
+
+// Only the owner may use a conversation. Conversations without a recorded owner, e.g. ones saved
+// before owners were recorded, are denied unless `claimUnowned` lets the caller claim them
+export async function canAccessConversation(
+  storage: ChatStorage,
+  conversation: Conversation,
+  principal: AuthPrincipal,
+  options: { claimUnowned?: boolean } = {}
+): Promise<boolean> {
+  if (storage.canAccessConversation) {
+    return storage.canAccessConversation(conversation, principal);
+  }
+
+  const ownerId = conversation.metadata?.ownerId;
+  if (ownerId) {
+    return ownerId === principal.userId;
+  }
+  return !!options.claimUnowned && (await recordConversationOwner(storage, conversation.id, principal));
+}
+
+// Record the principal as the owner of a conversation, false when the storage can't update it
+async function recordConversationOwner(storage: ChatStorage, conversationId: string, principal: AuthPrincipal): Promise<boolean> {
+  if (!storage.updateConversation) {
+    return false;
+  }
+  await storage.updateConversation(conversationId, { ownerId: principal.userId }, principal);
+  return true;
+}
+
+export async function streamMessage<TTools extends Record<string, any>>(config: AgentChatRouteConfig<TTools>, chatRequest: ChatRequest, req: Request) {
+  const principal = await authenticate(config, req);
+  if (!principal) {
     console.error('ERROR not authenticated');
     return new Response('Unauthorized', { status: 401 });
   }
 
-  // Save user message to storage if conversation_id is provided
-  if (config.storage && chatRequest.conversation_id && chatRequest.messages.length > 0) {
+  // Reject access to another user's conversation, and record the owner of a new one
+  let conversation: Conversation | null = null;
+  if (config.storage && chatRequest.conversation_id) {
     try {
-      const lastMessage = chatRequest.messages[chatRequest.messages.length - 1];
-      if (lastMessage.role === 'user') {
-        await config.storage.saveMessage(chatRequest.conversation_id, {
-          id: crypto.randomUUID(),
-          role: lastMessage.role,
-          content: lastMessage.content || JSON.stringify(lastMessage),
-          timestamp: new Date(),
-        });
+      conversation = await config.storage.getConversation(chatRequest.conversation_id, principal);
+      if (conversation && !(await canAccessConversation(config.storage, conversation, principal, { claimUnowned: config.claimUnownedConversations }))) {
+        console.error('ERROR conversation belongs to another user');
+        return new Response('Forbidden', { status: 403 });
+      }
+
+      // A config built without makeAgentChatRouteConfig can skip its check
+      if (!conversation && !canRecordConversationOwners(config.storage)) {
+        console.error('ERROR storage must implement createConversation, updateConversation or canAccessConversation, so conversations get an owner');
+        return new Response('Internal Server Error', { status: 500 });
+      }
+
+      if (!conversation && config.storage.createConversation) {
+        await config.storage.createConversation(chatRequest.conversation_id, { ownerId: principal.userId }, principal);
       }
+    } catch (error) {
+      console.error('❌ ERROR checking conversation access:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  // Pick this request's tools, now that the caller and the conversation are known
+  let tools: TTools;
+  try {
+    tools = typeof config.tools === 'function'
+      ? await (config.tools as ToolsResolver<TTools>)({
+        principal,
+        conversationId: chatRequest.conversation_id,
+        conversation,
+        request: req,
+      })
+      : config.tools;
+  } catch (error) {
+    console.error('❌ ERROR resolving tools:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+
+  // Save user message to storage if conversation_id is provided. The client sends the active
+  // branch, so the message follows the one before it: sending after an edit forks a new branch
+  const lastMessage = chatRequest.messages[chatRequest.messages.length - 1];
+  if (config.storage && chatRequest.conversation_id && lastMessage?.role === 'user') {
+    try {
+      const previousMessage = chatRequest.messages[chatRequest.messages.length - 2];
+      const userMessage = {
+        id: lastMessage.id || crypto.randomUUID(),
+        role: lastMessage.role,
+        content: getMessageText(lastMessage),
+        timestamp: new Date(),
+        uiMessageParts: lastMessage.parts,
+        parentId: previousMessage?.id ?? null,
+      };
+      const isStored = conversation?.messages.some(message => message.id === userMessage.id);
+
+      if (!isStored) {
+        await config.storage.saveMessage(chatRequest.conversation_id, userMessage, principal);
+
+        // Without createConversation the first message creates the conversation; make sure it
+        // has an owner, or the next request would be denied
+        if (!conversation && !config.storage.createConversation) {
+          const created = await config.storage.getConversation(chatRequest.conversation_id, principal);
+          if (created && !created.metadata?.ownerId) {
+            await recordConversationOwner(config.storage, chatRequest.conversation_id, principal);
+          }
+        }
+      } else if (chatRequest.trigger === 'submit-message' && config.storage.replaceMessage) {
+        // Edited in place via sendMessage({ messageId })
+        await config.storage.replaceMessage(chatRequest.conversation_id, userMessage, principal);
+      }
+      // On regenerate the user message is already stored; the new reply becomes a sibling branch
     } catch (error) {
       console.error('Failed to save user message:', error);
       // Don't fail the request if storage fails
     }
   }
 
+  // A reply that can be resumed keeps generating for a while after the client disconnects, so
+  // the client can reconnect to it. Otherwise the disconnect aborts it
+  const streamStore = chatRequest.conversation_id ? config.streamStore : undefined;
+  const stopController = new AbortController();
+  const abortSignal = streamStore ? stopController.signal : req.signal;
+
   try {
-    const convertedMessages = convertToModelMessages(chatRequest.messages);
-
-    const result = streamText({
-      model: config.model?.model || anthropic('claude-sonnet-4-20250514'),
-      messages: convertedMessages,
-      system: config.system_prompt,
-      toolChoice: 'auto',
-      temperature: config.model?.temperature || 0.3,
-      experimental_transform: smoothStream({ chunking: 'word', delayInMs: 20 }),
-      stopWhen: config.model?.stopWhen || stepCountIs(5),
-      onStepFinish: config.model?.onStepFinish,
-      tools: config.tools,
-    });
-    const response = result.toUIMessageStreamResponse({
-      onFinish: ({ messages }) => {
+    const convertedMessages = convertToModelMessages(withToolModelOutputs(chatRequest.messages as UIMessage[]));
+
+    const stream = createUIMessageStream({
+      // A request that ends with an assistant message carries client tool results; the reply
+      // continues that message
+      originalMessages: chatRequest.messages as UIMessage[],
+      execute: ({ writer }) => {
+        const result = streamText({
+          model: config.model?.model || anthropic('claude-sonnet-4-20250514'),
+          messages: convertedMessages,
+          system: config.system_prompt,
+          toolChoice: 'auto',
+          temperature: config.model?.temperature || 0.3,
+          experimental_transform: smoothStream({ chunking: 'word', delayInMs: 20 }),
+          stopWhen: config.model?.stopWhen || stepCountIs(5),
+          onStepFinish: config.model?.onStepFinish,
+          // Stop the model and any running tools when the reply is stopped
+          abortSignal,
+          tools: bindToolsToStream(tools, writer, {
+            principal,
+            conversationId: chatRequest.conversation_id,
+          }),
+        });
+
+        // Consume the stream to ensure message isn't lost on page refresh
+        result.consumeStream({
+          onError: (error) => {
+            console.error('❌ Stream consumption error:', error);
+          }
+        });
+
+        writer.merge(result.toUIMessageStream());
+      },
+      onFinish: ({ messages, isAborted, isContinuation }) => {
         // Save messages using the native UIMessage format from AI SDK
         if (config.storage && chatRequest.conversation_id && messages && messages.length > 0) {
-          const lastMessage = messages[messages.length - 1];
-          if (lastMessage.role === 'assistant') {
+          // A stopped reply is kept as far as it got, marked as interrupted
+          // (read through req, whose signal only follows the client while req is referenced)
+          const interrupted = isAborted || (streamStore ? stopController.signal : req.signal).aborted;
+          const responseMessage = messages[messages.length - 1];
+          const lastMessage = interrupted ? markMessageInterrupted(responseMessage) : responseMessage;
+          if (lastMessage.role === 'assistant' && lastMessage.parts.length > 0) {
             console.log('💾 Saving assistant message using AI SDK native format:', {
               messageId: lastMessage.id,
               partsCount: lastMessage.parts.length,
@@ -86,16 +246,36 @@ export async function streamMessage<TTools extends Record<string, any>>(config:
               hasToolParts: lastMessage.parts.some(p => p.type.startsWith('tool-')),
             });
 
+            const conversationId = chatRequest.conversation_id;
+            const assistantText = getMessageText(lastMessage);
+
             // Convert UIMessage to our storage format  
-            config.storage.saveMessage(chatRequest.conversation_id, {
+            const storedMessage = {
               id: lastMessage.id,
               role: lastMessage.role,
-              content: lastMessage.parts
-                .filter(part => part.type === 'text')
-                .map(part => (part as any).text)
-                .join(''),
+              content: assistantText,
               timestamp: new Date(),
               uiMessageParts: lastMessage.parts, // Store the native AI SDK parts
+              ...(interrupted && { interrupted: true }),
+            };
+
+            // A continued reply replaces the copy saved when it stopped for client tool results.
+            // Storage that can't replace keeps both, the continued one following the first
+            const isStored = isContinuation && conversation?.messages.some(message => message.id === lastMessage.id);
+            const saved = isStored && config.storage.replaceMessage
+              ? config.storage.replaceMessage(conversationId, storedMessage, principal)
+              : config.storage.saveMessage(conversationId, {
+                ...storedMessage,
+                ...(isStored && { id: crypto.randomUUID() }),
+                parentId: chatRequest.messages[chatRequest.messages.length - 1]?.id ?? null,
+              }, principal);
+
+            saved.then(() => {
+              if (interrupted) {
+                return;
+              }
+              const lastUserMessage = [...chatRequest.messages].reverse().find(message => message.role === 'user');
+              return generateTitleIfNeeded(config, conversationId, getMessageText(lastUserMessage), assistantText, principal);
             }).catch(error => {
               console.error('Failed to save assistant message:', error);
             });
@@ -104,23 +284,293 @@ export async function streamMessage<TTools extends Record<string, any>>(config:
       }
     });
 
-    // Consume the stream to ensure message isn't lost on page refresh
-    result.consumeStream({
-      onError: (error) => {
-        console.error('❌ Stream consumption error:', error);
-      }
-    });
+    if (!streamStore) {
+      return createUIMessageStreamResponse({ stream });
+    }
+
+    // Buffer a copy of the stream; it keeps being read when the client goes away
+    const streamId = crypto.randomUUID();
+    await streamStore.createStream(chatRequest.conversation_id!, streamId);
+    const running: RunningStream = { stopController, readers: new Set() };
+    runningStreams.set(streamId, running);
+    followReader(running, req.signal, config.streamDisconnectGraceMs);
+
+    const [responseStream, bufferedStream] = stream.tee();
+    bufferStream(streamStore, streamId, bufferedStream);
 
-    return response;
+    return createUIMessageStreamResponse({ stream: responseStream });
   } catch (error) {
     console.error('❌ ERROR in chat handler:', error);
     return new Response('Internal Server Error', { status: 500 });
   }
 }
 
+// A reply generated by this process and the clients following it
+interface RunningStream {
+  stopController: AbortController;
+  // Signals of the request that started the reply and of resumed ones still connected. Holding
+  // them keeps them following their clients (see onFinish above)
+  readers: Set<AbortSignal>;
+  abandonTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Replies generated by this process, keyed by stream id
+const runningStreams = new Map<string, RunningStream>();
+
+const DEFAULT_STREAM_DISCONNECT_GRACE_MS = 30000;
+
+// Count a client following the reply until its request goes away. A reply nobody follows is
+// aborted unless a client reconnects within the grace period
+function followReader(running: RunningStream, signal: AbortSignal, graceMs = DEFAULT_STREAM_DISCONNECT_GRACE_MS) {
+  running.readers.add(signal);
+  clearTimeout(running.abandonTimer);
+
+  const onDisconnect = () => {
+    running.readers.delete(signal);
+    if (running.readers.size > 0 || !Number.isFinite(graceMs)) {
+      return;
+    }
+    running.abandonTimer = setTimeout(() => {
+      if (running.readers.size === 0) {
+        console.log('⏹️ Stopping reply nobody reconnected to');
+        running.stopController.abort();
+      }
+    }, graceMs);
+  };
+
+  if (signal.aborted) {
+    onDisconnect();
+  } else {
+    signal.addEventListener('abort', onDisconnect, { once: true });
+  }
+}
+
+async function bufferStream(store: StreamStore, streamId: string, stream: ReadableStream<UIMessageChunk>): Promise<void> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await store.appendChunk(streamId, value);
+    }
+  } catch (error) {
+    console.error('❌ ERROR buffering stream:', error);
+    reader.cancel().catch(() => {});
+  } finally {
+    clearTimeout(runningStreams.get(streamId)?.abandonTimer);
+    runningStreams.delete(streamId);
+    await store.completeStream(streamId).catch(error => {
+      console.error('❌ ERROR completing stream:', error);
+    });
+  }
+}
+
+function getMessageText(message: any): string {
+  if (!message) {
+    return '';
+  }
+  if (Array.isArray(message.parts)) {
+    return message.parts
+      .filter((part: any) => part.type === 'text')
+      .map((part: any) => part.text)
+      .join('');
+  }
+  return typeof message.content === 'string' ? message.content : '';
+}
+
+// Title the conversation after its first assistant reply, when enabled in ModelConfig
+async function generateTitleIfNeeded<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  conversationId: string,
+  userText: string,
+  assistantText: string,
+  principal: AuthPrincipal
+): Promise<void> {
+  const titleGeneration = config.model?.titleGeneration;
+  if (!titleGeneration?.enabled || !config.storage?.updateConversation) {
+    return;
+  }
+
+  try {
+    const conversation = await config.storage.getConversation(conversationId, principal);
+    const assistantReplies = conversation?.messages.filter(message => message.role === 'assistant').length ?? 0;
+    if (!conversation || conversation.metadata?.title || assistantReplies !== 1) {
+      return;
+    }
+
+    const title = await generateConversationTitle({
+      model: titleGeneration.model || config.model!.model,
+      prompt: titleGeneration.prompt,
+      userText,
+      assistantText,
+    });
+
+    if (title) {
+      await config.storage.updateConversation(conversationId, { title }, principal);
+      console.log(`🏷️ Titled conversation ${conversationId}:`, title);
+    }
+  } catch (error) {
+    console.error('Failed to generate conversation title:', error);
+  }
+}
+
+// Hand each tool call its context, streaming status updates as `data-tool-status` parts
+function bindToolsToStream<TTools extends Record<string, any>>(
+  tools: TTools,
+  writer: UIMessageStreamWriter,
+  requestContext: { principal: AuthPrincipal; conversationId?: string }
+): TTools {
+  const statuses: Record<string, ToolCallStatus> = {};
+  // Shortened outputs by the output they replace; toModelOutput only gets the output
+  const modelOutputs = new Map<unknown, string>();
+
+  return Object.keys(tools).reduce((acc: TTools, toolName: string) => ({
+    ...acc,
+    // Without an executor the step ends at the call, and the client sends the result back. Client
+    // tools validate their input themselves, like the wrapped tools here; a form for the user
+    // needs valid input up front
+    [toolName]: tools[toolName].runsOn === 'client' || tools[toolName].runsOn === 'user' ? {
+      description: tools[toolName].description,
+      inputSchema: tools[toolName].runsOn === 'client'
+        ? jsonSchema(asSchema(tools[toolName].inputSchema).jsonSchema)
+        : tools[toolName].inputSchema,
+    } : {
+      ...tools[toolName],
+      // The model still gets the full JSON schema. Tools that validate their own input receive
+      // invalid arguments too, and answer with the issues instead of failing the step
+      ...(validatesOwnInput(tools[toolName]) && {
+        inputSchema: jsonSchema(asSchema(tools[toolName].inputSchema).jsonSchema),
+      }),
+      execute: async (input: any, options: ToolCallOptions) => {
+        // Parts with the same id replace each other on the client, so only the latest status shows
+        const reportStatus = (status: Partial<ToolCallStatus>) => {
+          const merged = { ...statuses[options.toolCallId], ...status, toolCallId: options.toolCallId };
+          statuses[options.toolCallId] = merged;
+          writer.write({ type: 'data-tool-status', id: options.toolCallId, data: merged });
+        };
+
+        const output = await tools[toolName].execute(input, {
+          ...requestContext,
+          toolCallId: options.toolCallId,
+          abortSignal: options.abortSignal,
+          reportStatus,
+          reportProgress: (progress: ToolCallProgress) => reportStatus({ progress: normalizeProgress(progress) }),
+        });
+
+        const modelOutput = statuses[options.toolCallId]?.modelOutput;
+        if (modelOutput) {
+          modelOutputs.set(output, modelOutput.value);
+        }
+        return output;
+      },
+      toModelOutput: (output: unknown) => {
+        if (modelOutputs.has(output)) {
+          return { type: 'text', value: modelOutputs.get(output)! };
+        }
+        return typeof output === 'string'
+          ? { type: 'text', value: output }
+          : { type: 'json', value: (output ?? null) as JSONValue };
+      },
+    },
+  }), {} as TTools);
+}
+
+// Tool results as the model saw them when they were made: outputs over their tool's outputLimit
+// are replaced with the shortened version kept in their `data-tool-status` part
+function withToolModelOutputs(messages: UIMessage[]): UIMessage[] {
+  return messages.map(message => {
+    const modelOutputs = new Map<string, ToolModelOutput>();
+    for (const part of message.parts) {
+      const status = part.type === 'data-tool-status' ? part.data as ToolCallStatus : undefined;
+      if (status?.modelOutput) {
+        modelOutputs.set(status.toolCallId, status.modelOutput);
+      }
+    }
+    if (modelOutputs.size === 0) {
+      return message;
+    }
+
+    return {
+      ...message,
+      parts: message.parts.map(part =>
+        isToolUIPart(part) && part.state === 'output-available' && modelOutputs.has(part.toolCallId)
+          ? { ...part, output: modelOutputs.get(part.toolCallId)!.value }
+          : part
+      ),
+    };
+  });
+}
+
+function normalizeProgress(progress: ToolCallProgress): ToolCallProgress {
+  if (typeof progress.percent !== 'number' || Number.isNaN(progress.percent)) {
+    return { ...progress, percent: undefined };
+  }
+  return { ...progress, percent: Math.min(100, Math.max(0, progress.percent)) };
+}
+
+const toolApprovalRequestSchema = z.object({
+  tool_approval: z.object({
+    tool_call_id: z.string(),
+    approved: z.boolean(),
+    reason: z.string().optional(),
+  }),
+});
+
+export class ToolApprovalRequest {
+  public readonly tool_call_id: string;
+  public readonly approved: boolean;
+  public readonly reason?: string;
+
+  constructor(data: unknown) {
+    const parsed = toolApprovalRequestSchema.parse(data);
+    this.tool_call_id = parsed.tool_approval.tool_call_id;
+    this.approved = parsed.tool_approval.approved;
+    this.reason = parsed.tool_approval.reason;
+  }
+
+  static isToolApproval(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && 'tool_approval' in data;
+  }
+}
+
+export async function submitToolApproval<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  approvalRequest: ToolApprovalRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const resolved = resolveToolApproval(approvalRequest.tool_call_id, principal.userId, {
+    approved: approvalRequest.approved,
+    reason: approvalRequest.reason,
+  });
+
+  if (!resolved) {
+    return new Response('No pending approval for this tool call', { status: 404 });
+  }
+
+  return new Response(JSON.stringify({ tool_call_id: approvalRequest.tool_call_id, approved: approvalRequest.approved }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
 export async function chatRoute<TTools extends Record<string, any>>(config: AgentChatRouteConfig<TTools>, req: Request) {
   try {
-    const chatRequest = await ChatRequest.fromRequest(req);
+    const body = await req.json();
+
+    // Approve / Deny decisions for paused tool calls share the chat endpoint
+    if (ToolApprovalRequest.isToolApproval(body)) {
+      return await submitToolApproval(config, new ToolApprovalRequest(body), req);
+    }
+
+    const chatRequest = new ChatRequest(body);
     return await streamMessage(config, chatRequest, req);
   } catch (error) {
     console.error('❌ ERROR parsing request:', error);
@@ -148,11 +598,12 @@ export class HistoryRequest {
 
 export async function getChatHistory<TTools extends Record<string, any>>(
   config: AgentChatRouteConfig<TTools>,
-  historyRequest: HistoryRequest
+  historyRequest: HistoryRequest,
+  req: Request
 ): Promise<Response> {
   // Check authentication
-  const is_authenticated = await config.auth_func();
-  if (!is_authenticated) {
+  const principal = await authenticate(config, req);
+  if (!principal) {
     console.error('ERROR not authenticated');
     return new Response('Unauthorized', { status: 401 });
   }
@@ -163,12 +614,17 @@ export async function getChatHistory<TTools extends Record<string, any>>(
   }
 
   try {
-    const conversation = await config.storage.getConversation(historyRequest.conversation_id);
+    const conversation = await config.storage.getConversation(historyRequest.conversation_id, principal);
 
     if (!conversation) {
       return new Response('Conversation not found', { status: 404 });
     }
 
+    if (!(await canAccessConversation(config.storage, conversation, principal, { claimUnowned: config.claimUnownedConversations }))) {
+      console.error('ERROR conversation belongs to another user');
+      return new Response('Forbidden', { status: 403 });
+    }
+
     return new Response(JSON.stringify(conversation), {
       status: 200,
       headers: {
@@ -185,23 +641,504 @@ export async function chatHistoryRoute<TTools extends Record<string, any>>(confi
   try {
     const url = new URL(req.url);
     const historyRequest = HistoryRequest.fromSearchParams(url.searchParams);
-    return await getChatHistory(config, historyRequest);
+    return await getChatHistory(config, historyRequest, req);
   } catch (error) {
     console.error('❌ ERROR parsing history request:', error);
     return new Response('Bad Request', { status: 400 });
   }
 }
 
+const streamRequestSchema = z.object({
+  conversation_id: z.string(),
+});
+
+export class StreamRequest {
+  public readonly conversation_id: string;
+
+  constructor(data: unknown) {
+    const parsed = streamRequestSchema.parse(data);
+    this.conversation_id = parsed.conversation_id;
+  }
+
+  static fromSearchParams(searchParams: URLSearchParams): StreamRequest {
+    const conversation_id = searchParams.get('conversation_id');
+    return new StreamRequest({ conversation_id });
+  }
+}
+
+// Look up the reply still being generated for a conversation the caller may access
+async function findActiveStream<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  streamRequest: StreamRequest,
+  principal: AuthPrincipal
+): Promise<{ streamId: string | null } | { response: Response }> {
+  if (config.storage) {
+    const conversation = await config.storage.getConversation(streamRequest.conversation_id, principal);
+    if (conversation && !(await canAccessConversation(config.storage, conversation, principal, { claimUnowned: config.claimUnownedConversations }))) {
+      console.error('ERROR conversation belongs to another user');
+      return { response: new Response('Forbidden', { status: 403 }) };
+    }
+  }
+
+  const streamId = config.streamStore ? await config.streamStore.getActiveStreamId(streamRequest.conversation_id) : null;
+  return { streamId };
+}
+
+// Replay the reply being generated and follow it to the end, 204 when there is none
+export async function resumeChatStream<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  streamRequest: StreamRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const found = await findActiveStream(config, streamRequest, principal);
+    if ('response' in found) {
+      return found.response;
+    }
+
+    const stream = found.streamId ? await config.streamStore!.readStream(found.streamId) : null;
+    if (!stream) {
+      return new Response(null, { status: 204 });
+    }
+
+    console.log(`🔁 Resuming stream ${found.streamId} for conversation ${streamRequest.conversation_id}`);
+    // Keeps the reply from being stopped as abandoned; only the instance generating it counts
+    // its readers
+    const running = runningStreams.get(found.streamId!);
+    if (running) {
+      followReader(running, req.signal, config.streamDisconnectGraceMs);
+    }
+    return createUIMessageStreamResponse({ stream });
+  } catch (error) {
+    console.error('❌ ERROR resuming stream:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+// Stop the reply being generated, keeping it as far as it got
+export async function stopChatStream<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  streamRequest: StreamRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const found = await findActiveStream(config, streamRequest, principal);
+    if ('response' in found) {
+      return found.response;
+    }
+
+    // Only the process generating the reply can stop it
+    const running = found.streamId ? runningStreams.get(found.streamId) : undefined;
+    if (!running) {
+      return new Response('No active stream for this conversation', { status: 404 });
+    }
+
+    running.stopController.abort();
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('❌ ERROR stopping stream:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+// Handles GET (resume) and DELETE (stop) on one path
+export async function chatStreamRoute<TTools extends Record<string, any>>(config: AgentChatRouteConfig<TTools>, req: Request) {
+  try {
+    const streamRequest = StreamRequest.fromSearchParams(new URL(req.url).searchParams);
+
+    switch (req.method) {
+      case 'GET':
+        return await resumeChatStream(config, streamRequest, req);
+      case 'DELETE':
+        return await stopChatStream(config, streamRequest, req);
+      default:
+        return new Response('Method not allowed', { status: 405 });
+    }
+  } catch (error) {
+    console.error('❌ ERROR parsing stream request:', error);
+    return new Response('Bad Request', { status: 400 });
+  }
+}
+
+const listConversationsRequestSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export class ListConversationsRequest {
+  public readonly limit: number;
+  public readonly offset: number;
+
+  constructor(data: unknown) {
+    const parsed = listConversationsRequestSchema.parse(data);
+    this.limit = parsed.limit;
+    this.offset = parsed.offset;
+  }
+
+  static fromSearchParams(searchParams: URLSearchParams): ListConversationsRequest {
+    return new ListConversationsRequest({
+      limit: searchParams.get('limit') ?? undefined,
+      offset: searchParams.get('offset') ?? undefined,
+    });
+  }
+}
+
+const createConversationRequestSchema = z.object({
+  conversation_id: z.string().optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export class CreateConversationRequest {
+  public readonly conversation_id: string;
+  public readonly metadata: Record<string, any>;
+
+  constructor(data: unknown) {
+    const parsed = createConversationRequestSchema.parse(data ?? {});
+    this.conversation_id = parsed.conversation_id || `conv_${crypto.randomUUID()}`;
+    this.metadata = parsed.metadata || {};
+  }
+}
+
+const updateConversationRequestSchema = z.object({
+  conversation_id: z.string(),
+  metadata: z.record(z.any()),
+});
+
+export class UpdateConversationRequest {
+  public readonly conversation_id: string;
+  public readonly metadata: Record<string, any>;
+
+  constructor(data: unknown) {
+    const parsed = updateConversationRequestSchema.parse(data);
+    this.conversation_id = parsed.conversation_id;
+    this.metadata = parsed.metadata;
+  }
+}
+
+const deleteConversationRequestSchema = z.object({
+  conversation_id: z.string(),
+});
+
+export class DeleteConversationRequest {
+  public readonly conversation_id: string;
+
+  constructor(data: unknown) {
+    const parsed = deleteConversationRequestSchema.parse(data);
+    this.conversation_id = parsed.conversation_id;
+  }
+
+  static fromSearchParams(searchParams: URLSearchParams): DeleteConversationRequest {
+    const conversation_id = searchParams.get('conversation_id');
+    return new DeleteConversationRequest({ conversation_id });
+  }
+}
+
+// Conversation without its messages, as returned by the list endpoint
+export interface ConversationSummary {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  metadata?: Record<string, any>;
+  messageCount: number;
+}
+
+function toConversationSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    metadata: conversation.metadata,
+    messageCount: conversation.messages.length,
+  };
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+export async function listConversations<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  listRequest: ListConversationsRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  if (!config.storage?.listConversations) {
+    return new Response('Conversation listing not available - storage does not support it', { status: 501 });
+  }
+
+  try {
+    // Storage may return conversations the caller can't access, so keep reading until the page
+    // is full plus one more to find out whether there is another page. `offset` counts storage
+    // rows, so the client continues from `nextOffset` rather than the number it received
+    const batchSize = listRequest.limit + 1;
+    const accessible: Conversation[] = [];
+    let storageOffset = listRequest.offset;
+    let nextOffset = listRequest.offset;
+
+    while (accessible.length <= listRequest.limit) {
+      const batch = await config.storage.listConversations(batchSize, storageOffset, principal);
+      for (const conversation of batch) {
+        if (accessible.length > listRequest.limit) {
+          break;
+        }
+        storageOffset++;
+        if (await canAccessConversation(config.storage, conversation, principal)) {
+          accessible.push(conversation);
+          if (accessible.length <= listRequest.limit) {
+            nextOffset = storageOffset;
+          }
+        }
+      }
+      if (batch.length < batchSize) {
+        break;
+      }
+    }
+
+    return jsonResponse({
+      conversations: accessible.slice(0, listRequest.limit).map(toConversationSummary),
+      limit: listRequest.limit,
+      offset: listRequest.offset,
+      nextOffset,
+      hasMore: accessible.length > listRequest.limit,
+    });
+  } catch (error) {
+    console.error('❌ ERROR listing conversations:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function createConversation<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  createRequest: CreateConversationRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  if (!config.storage?.createConversation) {
+    return new Response('Conversation creation not available - storage does not support it', { status: 501 });
+  }
+
+  try {
+    const existing = await config.storage.getConversation(createRequest.conversation_id, principal);
+    if (existing) {
+      return new Response('Conversation already exists', { status: 409 });
+    }
+
+    const conversation = await config.storage.createConversation(
+      createRequest.conversation_id,
+      { ...createRequest.metadata, ownerId: principal.userId },
+      principal
+    );
+
+    return jsonResponse(toConversationSummary(conversation), 201);
+  } catch (error) {
+    console.error('❌ ERROR creating conversation:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function updateConversation<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  updateRequest: UpdateConversationRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  if (!config.storage?.updateConversation) {
+    return new Response('Conversation updates not available - storage does not support it', { status: 501 });
+  }
+
+  try {
+    const conversation = await config.storage.getConversation(updateRequest.conversation_id, principal);
+    if (!conversation) {
+      return new Response('Conversation not found', { status: 404 });
+    }
+
+    if (!(await canAccessConversation(config.storage, conversation, principal, { claimUnowned: config.claimUnownedConversations }))) {
+      console.error('ERROR conversation belongs to another user');
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    // Ownership can't be changed through the API
+    const { ownerId: _ownerId, ...metadata } = updateRequest.metadata;
+    const updated = await config.storage.updateConversation(updateRequest.conversation_id, metadata, principal);
+
+    return jsonResponse(toConversationSummary(updated));
+  } catch (error) {
+    console.error('❌ ERROR updating conversation:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+export async function deleteConversation<TTools extends Record<string, any>>(
+  config: AgentChatRouteConfig<TTools>,
+  deleteRequest: DeleteConversationRequest,
+  req: Request
+): Promise<Response> {
+  const principal = await authenticate(config, req);
+  if (!principal) {
+    console.error('ERROR not authenticated');
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  if (!config.storage?.deleteConversation) {
+    return new Response('Conversation deletion not available - storage does not support it', { status: 501 });
+  }
+
+  try {
+    const conversation = await config.storage.getConversation(deleteRequest.conversation_id, principal);
+    if (!conversation) {
+      return new Response('Conversation not found', { status: 404 });
+    }
+
+    if (!(await canAccessConversation(config.storage, conversation, principal, { claimUnowned: config.claimUnownedConversations }))) {
+      console.error('ERROR conversation belongs to another user');
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    await config.storage.deleteConversation(deleteRequest.conversation_id, principal);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('❌ ERROR deleting conversation:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+// Handles GET (list), POST (create), PATCH (update metadata / rename) and DELETE on one path
+export async function conversationsRoute<TTools extends Record<string, any>>(config: AgentChatRouteConfig<TTools>, req: Request) {
+  try {
+    const url = new URL(req.url);
+
+    switch (req.method) {
+      case 'GET':
+        return await listConversations(config, ListConversationsRequest.fromSearchParams(url.searchParams), req);
+      case 'POST':
+        return await createConversation(config, new CreateConversationRequest(await req.json()), req);
+      case 'PATCH':
+        return await updateConversation(config, new UpdateConversationRequest(await req.json()), req);
+      case 'DELETE':
+        return await deleteConversation(config, DeleteConversationRequest.fromSearchParams(url.searchParams), req);
+      default:
+        return new Response('Method not allowed', { status: 405 });
+    }
+  } catch (error) {
+    console.error('❌ ERROR parsing conversations request:', error);
+    return new Response('Bad Request', { status: 400 });
+  }
+}
+
 // Express.js route handler
 export function AgentChatRoute<TTools extends Record<string, any>>(config: AgentChatRouteConfig<TTools>) {
   return async (req: any, res: any) => {
     try {
-      if (req.method === 'POST') {
-        // Main chat endpoint
+      if (req.url.includes('/conversations')) {
+        // Conversation management endpoints
+        const hasBody = req.method === 'POST' || req.method === 'PATCH';
+        const webRequest = new Request(`http://localhost${req.url}`, {
+          method: req.method,
+          headers: req.headers,
+          body: hasBody ? JSON.stringify(req.body) : undefined,
+        });
+
+        const response = await conversationsRoute(config, webRequest);
+
+        // Copy response headers
+        response.headers.forEach((value, key) => {
+          res.setHeader(key, value);
+        });
+
+        res.status(response.status);
+
+        if (response.body) {
+          const text = await response.text();
+          res.send(text);
+        } else {
+          res.end();
+        }
+      } else if (req.url.includes('/stream')) {
+        // Resume (GET) or stop (DELETE) the reply being generated. A resumed reply counts this
+        // client as following it until the client disconnects
+        const abortController = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) {
+            abortController.abort();
+          }
+        });
+
+        const webRequest = new Request(`http://localhost${req.url}`, {
+          method: req.method,
+          headers: req.headers,
+          signal: abortController.signal,
+        });
+
+        const response = await chatStreamRoute(config, webRequest);
+
+        // Copy response headers
+        response.headers.forEach((value, key) => {
+          res.setHeader(key, value);
+        });
+
+        res.status(response.status);
+
+        if (response.body) {
+          // Stream the response, stopping when the client goes away
+          const reader = response.body.getReader();
+          abortController.signal.addEventListener('abort', () => {
+            reader.cancel().catch(() => {});
+          }, { once: true });
+          while (!abortController.signal.aborted) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            res.write(value);
+          }
+        }
+
+        res.end();
+      } else if (req.method === 'POST') {
+        // Main chat endpoint. The request is aborted when the client disconnects, which stops
+        // generation unless the reply can be resumed
+        const abortController = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) {
+            abortController.abort();
+          }
+        });
+
         const webRequest = new Request(`http://localhost${req.url}`, {
           method: 'POST',
           headers: req.headers,
           body: JSON.stringify(req.body),
+          signal: abortController.signal,
         });
 
         const response = await chatRoute(config, webRequest);
@@ -214,9 +1151,12 @@ export function AgentChatRoute<TTools extends Record<string, any>>(config: Agent
         res.status(response.status);
 
         if (response.body) {
-          // Stream the response
+          // Stream the response, stopping when the client goes away
           const reader = response.body.getReader();
-          while (true) {
+          abortController.signal.addEventListener('abort', () => {
+            reader.cancel().catch(() => {});
+          }, { once: true });
+          while (!abortController.signal.aborted) {
             const { done, value } = await reader.read();
             if (done) break;
             res.write(value);
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { AskUserAnswer, AskUserInput } from './ask-user';
+
+interface AskUserFormProps {
+  input: AskUserInput;
+  onSubmit: (answer: AskUserAnswer) => void;
+}
+
+// Form for an ask_user call; its answer becomes the tool result
+export const AskUserForm = ({ input, onSubmit }: AskUserFormProps) => {
+  const [answers, setAnswers] = useState<Record<string, string | boolean>>(() =>
+    input.fields.reduce<Record<string, string | boolean>>(
+      (acc, field) => ({ ...acc, [field.name]: field.type === 'confirm' ? false : '' }),
+      {}
+    )
+  );
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const isComplete = input.fields.every(field =>
+    field.type === 'confirm' || !field.required || answers[field.name] !== ''
+  );
+
+  const setAnswer = (name: string, value: string | boolean) => {
+    setAnswers(current => ({ ...current, [name]: value }));
+  };
+
+  const submit = (answer: AskUserAnswer) => {
+    setIsSubmitted(true);
+    onSubmit(answer);
+  };
+
+  return (
+    <form
+      className="ask-user-form"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit({ answers });
+      }}
+    >
+      <div className="ask-user-question">{input.question}</div>
+
+      {input.fields.map(field => (
+        <label key={field.name} className={`ask-user-field ask-user-field-${field.type}`}>
+          {field.type === 'confirm' ? (
+            <>
+              <input
+                type="checkbox"
+                checked={answers[field.name] === true}
+                onChange={(e) => setAnswer(field.name, e.target.checked)}
+                disabled={isSubmitted}
+              />
+              <span className="ask-user-field-label">{field.label}</span>
+            </>
+          ) : (
+            <>
+              <span className="ask-user-field-label">
+                {field.label}{field.required ? ' *' : ''}
+              </span>
+              {field.type === 'select' ? (
+                <select
+                  className="ask-user-input"
+                  value={String(answers[field.name])}
+                  onChange={(e) => setAnswer(field.name, e.target.value)}
+                  disabled={isSubmitted}
+                >
+                  <option value="">Choose...</option>
+                  {field.options.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  className="ask-user-input"
+                  value={String(answers[field.name])}
+                  placeholder={field.placeholder}
+                  onChange={(e) => setAnswer(field.name, e.target.value)}
+                  disabled={isSubmitted}
+                />
+              )}
+            </>
+          )}
+        </label>
+      ))}
+
+      <div className="ask-user-actions">
+        <button
+          type="submit"
+          className="ask-user-button ask-user-submit"
+          disabled={!isComplete || isSubmitted}
+        >
+          Submit
+        </button>
+        <button
+          type="button"
+          className="ask-user-button ask-user-decline"
+          onClick={() => submit({ answers: {}, declined: true })}
+          disabled={isSubmitted}
+        >
+          Skip
+        </button>
+      </div>
+    </form>
+  );
+};
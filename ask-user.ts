@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import type { Tool } from './config-server';
+
+const askUserFieldSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    name: z.string().describe('Key of the answer'),
+    label: z.string(),
+    placeholder: z.string().optional(),
+    required: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('select'),
+    name: z.string().describe('Key of the answer'),
+    label: z.string(),
+    options: z.array(z.string()).min(1),
+    required: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('confirm'),
+    name: z.string().describe('Key of the answer'),
+    label: z.string().describe('Statement the user checks to agree to'),
+  }),
+]);
+
+export const askUserInputSchema = z.object({
+  question: z.string().describe('What to ask the user'),
+  fields: z.array(askUserFieldSchema).min(1).describe('Form fields for the answer'),
+});
+
+export type AskUserField = z.infer<typeof askUserFieldSchema>;
+export type AskUserInput = z.infer<typeof askUserInputSchema>;
+
+// What the model gets back: the values by field name, or `declined` when the user skipped the question
+export interface AskUserAnswer {
+  answers: Record<string, string | boolean>;
+  declined?: boolean;
+}
+
+// A tool the model calls to ask the user something. It renders as a form in the chat, and the
+// submitted values are its result
+export function createAskUserTool({
+  description = 'Ask the user a question and wait for their answer. Use it when you need a choice, ' +
+    'a value or a confirmation only the user can give',
+  display_name = 'Question',
+}: { description?: string; display_name?: string } = {}): Tool<typeof askUserInputSchema, AskUserAnswer> {
+  return {
+    description,
+    display_name,
+    inputSchema: askUserInputSchema,
+    runsOn: 'user',
+    execute: async () => {
+      throw new Error('ask_user is answered by the user in the chat, it has nothing to execute');
+    },
+  };
+}
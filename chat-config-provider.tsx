@@ -1,11 +1,21 @@
 'use client';
 
-import { createContext, useContext, ReactNode, useEffect, useState, useMemo } from 'react';
+import { createContext, useContext, ReactNode, useEffect, useState, useMemo, useRef } from 'react';
 import { useChat, UIMessage } from '@ai-sdk/react';
 import { DefaultChatTransport } from 'ai';
 import { AgentChatConfig } from './config';
 import { registerToolRenderer } from './tool-renderer-registry';
 import { ChatMessage } from './config';
+import {
+  MessageBranchTree,
+  addToBranchTree,
+  addPathToBranchTree,
+  getBranchPath,
+  getSiblingIds,
+} from './message-branches';
+import { markMessageInterrupted } from './message-interruption';
+import { DEFAULT_TOOL_EXECUTION_CONFIG } from './config-client';
+import { CLIENT_PRINCIPAL, isClientToolStepComplete, wrapClientTools } from './client-tools';
 
 interface AgentChatState {
   config: AgentChatConfig;
@@ -20,6 +30,14 @@ interface AgentChatState {
   currentTool: string | null;
   setCurrentTool: (currentTool: string | null) => void;
   handleSubmit: (e: React.FormEvent) => void;
+  stopGeneration: () => Promise<void>;
+  respondToToolApproval: (toolCallId: string, approved: boolean) => Promise<void>;
+  submitToolResult: (toolCallId: string, toolName: string, output: unknown) => void;
+  isAwaitingUserInput: boolean;
+  editMessage: (messageId: string, text: string) => void;
+  regenerateMessage: (messageId: string) => void;
+  getSiblingIds: (messageId: string) => string[];
+  switchBranch: (messageId: string) => void;
   isLoadingHistory: boolean;
   restoredMessages: UIMessage[];
   allMessages: UIMessage[];
@@ -36,15 +54,21 @@ interface AgentChatProviderProps {
 export const AgentChatProvider = ({ config, conversationId, children }: AgentChatProviderProps) => {
   const [initialMessages, setInitialMessages] = useState<UIMessage[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
-  const [chatKey, setChatKey] = useState(0);
+  const [branchTree, setBranchTree] = useState<MessageBranchTree>({});
 
   // Load conversation history when conversation ID is available
   useEffect(() => {
+    // Start from a clean slate when switching conversations
+    setInitialMessages([]);
+    setBranchTree({});
+
     if (!conversationId) {
       setIsLoadingHistory(false);
       return;
     }
 
+    setIsLoadingHistory(true);
+
     let cancelled = false;
     const loadConversationHistory = async () => {
       try {
@@ -70,6 +94,7 @@ export const AgentChatProvider = ({ config, conversationId, children }: AgentCha
                   id: msg.id,
                   role: msg.role as 'user' | 'assistant' | 'system',
                   parts: msg.uiMessageParts,
+                  metadata: msg.interrupted ? { interrupted: true } : undefined,
                 };
               }
 
@@ -124,8 +149,12 @@ export const AgentChatProvider = ({ config, conversationId, children }: AgentCha
                   // Set state and output based on whether we have a result
                   if (correspondingResult) {
                     if (correspondingResult.isError) {
+                      // Older messages stored the error as a plain string
+                      const error: unknown = correspondingResult.error;
                       toolPart.state = 'output-error';
-                      toolPart.errorText = correspondingResult.error || 'Tool execution failed';
+                      toolPart.errorText = typeof error === 'string'
+                        ? error
+                        : correspondingResult.error?.message || 'Tool execution failed';
                     } else {
                       toolPart.state = 'output-available';
                       toolPart.output = correspondingResult.output;
@@ -142,12 +171,21 @@ export const AgentChatProvider = ({ config, conversationId, children }: AgentCha
                 id: msg.id,
                 role: msg.role as 'user' | 'assistant' | 'system',
                 parts: parts.length > 0 ? parts : [{ type: 'text', text: textContent || '', state: 'done' }],
+                metadata: msg.interrupted ? { interrupted: true } : undefined,
               };
             });
 
+            // Link every branch; messages saved before branching existed follow the previous one
+            let tree: MessageBranchTree = {};
+            aiMessages.forEach((message, index) => {
+              const parentId = conversation.messages[index].parentId;
+              tree = addToBranchTree(tree, message, parentId !== undefined ? parentId : aiMessages[index - 1]?.id ?? null);
+            });
+
             if (!cancelled) {
-              setInitialMessages(aiMessages);
-              setChatKey(prev => prev + 1); // Force useChat to reinitialize
+              // Show the branch that was active last, i.e. the one holding the latest message
+              setBranchTree(tree);
+              setInitialMessages(getBranchPath(tree, aiMessages[aiMessages.length - 1].id));
               console.log(`✅ Restored ${aiMessages.length} messages for conversation ${conversationId}`);
               console.log('🔄 Restored messages details:', aiMessages.map(msg => ({
                 id: msg.id,
@@ -219,18 +257,95 @@ export const AgentChatProvider = ({ config, conversationId, children }: AgentCha
           },
         };
       },
+      prepareReconnectToStreamRequest: () => {
+        const streamRoute = config.streamRoute || `${config.route}/stream`;
+        const url = new URL(streamRoute, window.location.origin);
+        url.searchParams.set('conversation_id', conversationId);
+        return { api: url.toString() };
+      },
     });
-  }, [config.route, config.headers]); // Add headers dependency
+  }, [config.route, config.streamRoute, config.headers, conversationId]); // Add headers dependency
+
+  // Tools marked runsOn: 'client' are executed here and their results sent back to the server
+  const clientTools = useMemo(
+    () => wrapClientTools(config.clientTools ?? {}, config.toolExecution ?? DEFAULT_TOOL_EXECUTION_CONFIG),
+    [config.clientTools, config.toolExecution]
+  );
+  const userInputTools = useMemo(
+    () => Object.keys(config.tools).filter(toolName => config.tools[toolName].runsOn === 'user'),
+    [config.tools]
+  );
+  const clientToolsController = useRef(new AbortController());
+  const chatHelpersRef = useRef<ReturnType<typeof useChat> | null>(null);
+  const lastRequestEnded = useRef<'finished' | 'failed'>('finished');
+
+  // Stop client tools still running for the previous conversation
+  useEffect(() => {
+    return () => {
+      clientToolsController.current.abort();
+      clientToolsController.current = new AbortController();
+    };
+  }, [conversationId]);
+
+  // Runs in the background, since onToolCall holds up the rest of the stream until it returns
+  const runClientTool = async (toolCall: { toolCallId: string; toolName: string; input: unknown }) => {
+    const abortSignal = clientToolsController.current.signal;
+    // Failures come back as a ToolErrorResult, the same as from server tools
+    const output = await clientTools[toolCall.toolName].execute(toolCall.input, {
+      toolCallId: toolCall.toolCallId,
+      principal: CLIENT_PRINCIPAL,
+      conversationId,
+      abortSignal,
+    });
+
+    // A stopped reply marks its unfinished calls itself and is not continued
+    if (!abortSignal.aborted) {
+      chatHelpersRef.current?.addToolResult({ tool: toolCall.toolName, toolCallId: toolCall.toolCallId, output });
+    }
+  };
 
   const chatOptions = useMemo(() => {
     return {
       id: conversationId,
       messages: initialMessages,
       transport,
+      onToolCall: ({ toolCall }: { toolCall: { toolCallId: string; toolName: string; input: unknown; dynamic?: boolean } }) => {
+        if (!toolCall.dynamic && toolCall.toolName in clientTools) {
+          runClientTool(toolCall);
+        }
+      },
+      onFinish: ({ isAbort, isError }: { isAbort: boolean; isError: boolean }) => {
+        lastRequestEnded.current = isAbort || isError ? 'failed' : 'finished';
+      },
+      // Send the results once every client tool of the step has answered, or the user has. Not
+      // after a stopped or failed request, which would otherwise be retried in a loop
+      sendAutomaticallyWhen: ({ messages }: { messages: UIMessage[] }) =>
+        lastRequestEnded.current === 'finished' &&
+        isClientToolStepComplete(messages[messages.length - 1], [...Object.keys(clientTools), ...userInputTools]),
     };
-  }, [initialMessages, transport, chatKey]);
+  }, [initialMessages, transport, clientTools, userInputTools]);
 
   const chatHelpers = useChat(chatOptions);
+  chatHelpersRef.current = chatHelpers;
+
+  // useChat only reads `messages` when it creates the chat, so hand it the restored history
+  useEffect(() => {
+    chatHelpers.setMessages(initialMessages);
+  }, [initialMessages]);
+
+  // Pick up a reply that was still being generated when the page was left, e.g. on reload. Replies
+  // are saved once they finish, so the restored branch then ends with the user's message
+  useEffect(() => {
+    const lastMessage = initialMessages[initialMessages.length - 1];
+    if (!isLoadingHistory && lastMessage?.role === 'user') {
+      chatHelpers.resumeStream();
+    }
+  }, [initialMessages, isLoadingHistory]);
+
+  // Track every message shown so far, so edited and regenerated branches can be revisited
+  useEffect(() => {
+    setBranchTree(tree => addPathToBranchTree(tree, chatHelpers.messages));
+  }, [chatHelpers.messages]);
 
   const [input, setInput] = useState('');
   const [isThinking, setIsThinking] = useState(false);
@@ -300,11 +415,92 @@ export const AgentChatProvider = ({ config, conversationId, children }: AgentCha
     }
   };
 
-  // Combine restored messages with current chat messages
-  const currentMessages = chatHelpers.messages.filter((msg: any) =>
-    !initialMessages.some(restored => restored.id === msg.id)
+  // Stop the reply being generated; the server stops the model and running tools and keeps the
+  // partial reply, so mark the local copy the same way
+  const stopGeneration = async () => {
+    clientToolsController.current.abort();
+    clientToolsController.current = new AbortController();
+    await chatHelpers.stop();
+
+    // A resumable reply outlives the request, so ask the server to stop it as well
+    try {
+      const streamRoute = config.streamRoute || `${config.route}/stream`;
+      const url = new URL(streamRoute, window.location.origin);
+      url.searchParams.set('conversation_id', conversationId);
+      const response = await fetch(url.toString(), { method: 'DELETE', headers: config.headers });
+
+      // 404 means the reply already finished, or the server doesn't buffer replies
+      if (!response.ok && response.status !== 404) {
+        console.error('Failed to stop generation:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Failed to stop generation:', error);
+    }
+
+    chatHelpers.setMessages(messages => {
+      const lastMessage = messages[messages.length - 1];
+      if (lastMessage?.role !== 'assistant') {
+        return messages;
+      }
+      return [...messages.slice(0, -1), markMessageInterrupted(lastMessage)];
+    });
+  };
+
+  // Send an Approve / Deny decision for a tool call paused on the server
+  const respondToToolApproval = async (toolCallId: string, approved: boolean) => {
+    try {
+      const response = await fetch(config.route, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...config.headers,
+        },
+        body: JSON.stringify({
+          conversation_id: conversationId,
+          tool_approval: { tool_call_id: toolCallId, approved },
+        }),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to submit tool approval:', response.statusText);
+      }
+    } catch (error) {
+      console.error('Failed to submit tool approval:', error);
+    }
+  };
+
+  // Answer a call to a tool with runsOn: 'user'; the reply continues once the step is complete
+  const submitToolResult = (toolCallId: string, toolName: string, output: unknown) => {
+    chatHelpers.addToolResult({ tool: toolName, toolCallId, output });
+  };
+
+  // A question from a 'user' tool has to be answered before the conversation can go on
+  const lastMessage = chatHelpers.messages[chatHelpers.messages.length - 1];
+  const isAwaitingUserInput = lastMessage?.role === 'assistant' && lastMessage.parts.some((part: any) =>
+    part.type.startsWith('tool-') &&
+    userInputTools.includes(part.type.replace('tool-', '')) &&
+    part.state === 'input-available'
   );
-  const allMessages = [...initialMessages, ...currentMessages];
+
+  // Resend from the edited message's parent; the new message becomes a sibling branch of the original
+  const editMessage = (messageId: string, text: string) => {
+    const index = chatHelpers.messages.findIndex(message => message.id === messageId);
+    if (index === -1 || !text.trim()) {
+      return;
+    }
+
+    chatHelpers.setMessages(chatHelpers.messages.slice(0, index));
+    chatHelpers.sendMessage({ text });
+  };
+
+  // Ask for a new reply; the server stores it as a sibling branch of the old one
+  const regenerateMessage = (messageId: string) => {
+    chatHelpers.regenerate({ messageId });
+  };
+
+  const switchBranch = (messageId: string) => {
+    chatHelpers.setMessages(getBranchPath(branchTree, messageId));
+  };
 
   const state: AgentChatState = {
     config,
@@ -319,9 +515,17 @@ export const AgentChatProvider = ({ config, conversationId, children }: AgentCha
     currentTool,
     setCurrentTool,
     handleSubmit,
+    stopGeneration,
+    respondToToolApproval,
+    submitToolResult,
+    isAwaitingUserInput,
+    editMessage,
+    regenerateMessage,
+    getSiblingIds: (messageId: string) => getSiblingIds(branchTree, messageId),
+    switchBranch,
     isLoadingHistory,
     restoredMessages: initialMessages,
-    allMessages,
+    allMessages: chatHelpers.messages,
   };
 
   // Show loading state while history is being loaded
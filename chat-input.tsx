@@ -5,27 +5,42 @@ interface ChatInputProps {
 }
 
 export const ChatInput = ({ disabled = false }: ChatInputProps) => {
-  const { input, setInput, handleSubmit, isLoadingHistory, conversationId } = useChatState();
+  const { input, setInput, handleSubmit, stopGeneration, chatHelpers, isLoadingHistory, conversationId, isAwaitingUserInput } = useChatState();
   
-  // Disable input while loading history or if no conversation ID
-  const isDisabled = disabled || isLoadingHistory || !conversationId;
+  // Disable input while loading history, if no conversation ID, or until a question is answered
+  const isDisabled = disabled || isLoadingHistory || !conversationId || isAwaitingUserInput;
+  const isGenerating = chatHelpers.status === 'submitted' || chatHelpers.status === 'streaming';
   
   return (
     <form onSubmit={handleSubmit} className="chat-input-form">
       <input
         className="chat-input-field"
         value={input}
-        placeholder={isLoadingHistory ? "Loading conversation..." : "Type your message..."}
+        placeholder={
+          isLoadingHistory ? "Loading conversation..." :
+          isAwaitingUserInput ? "Answer the question above to continue" :
+          "Type your message..."
+        }
         onChange={(e) => setInput(e.target.value)}
         disabled={isDisabled}
       />
-      <button
-        type="submit"
-        className="chat-input-button"
-        disabled={!input.trim() || isDisabled}
-      >
-        Send
-      </button>
+      {isGenerating ? (
+        <button
+          type="button"
+          className="chat-input-button chat-input-stop"
+          onClick={stopGeneration}
+        >
+          Stop
+        </button>
+      ) : (
+        <button
+          type="submit"
+          className="chat-input-button"
+          disabled={!input.trim() || isDisabled}
+        >
+          Send
+        </button>
+      )}
     </form>
   );
 };
@@ -1,6 +1,9 @@
+import { useState } from 'react';
 import { MessagePart } from './message-part';
 import { useChatConfig, useChatState } from './chat-config-provider';
 import { ThinkingBubble } from './thinking-bubble';
+import { ToolCallStatus } from './config';
+import { isMessageInterrupted } from './message-interruption';
 
 interface ChatMessageProps {
   message: any;
@@ -14,11 +17,50 @@ export const ChatMessage = ({
   isLastMessage
 }: ChatMessageProps) => {
   const { tools } = useChatConfig();
-  const { isThinking, isProcessingTools } = useChatState();
+  const {
+    chatHelpers,
+    isThinking,
+    isProcessingTools,
+    editMessage,
+    regenerateMessage,
+    getSiblingIds,
+    switchBranch,
+  } = useChatState();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
   
   // Check if this is the last assistant message and if we should show thinking/processing
   const isAssistant = message.role === 'assistant';
   const shouldShowThinking = isAssistant && isLastMessage && (isThinking || isProcessingTools);
+
+  // Latest status for each tool call, streamed by the server as data parts
+  const toolStatuses: Record<string, ToolCallStatus> = {};
+  message.parts
+    .filter((part: any) => part.type === 'data-tool-status')
+    .forEach((part: any) => {
+      toolStatuses[part.data.toolCallId] = part.data;
+    });
+
+  // Edits and regenerations create sibling branches the user can flip between
+  const isBusy = chatHelpers.status === 'submitted' || chatHelpers.status === 'streaming';
+  const siblingIds = getSiblingIds(message.id);
+  const branchIndex = siblingIds.indexOf(message.id);
+  const messageText = message.parts
+    .filter((part: any) => part.type === 'text')
+    .map((part: any) => part.text)
+    .join('');
+
+  const startEditing = () => {
+    setEditText(messageText);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    setIsEditing(false);
+    if (editText.trim() && editText !== messageText) {
+      editMessage(message.id, editText);
+    }
+  };
   
   return (
     <div className="chat-message">
@@ -27,20 +69,98 @@ export const ChatMessage = ({
           message.role === 'user' ? 'chat-message-user' : 'chat-message-assistant'
         }`}
       >
-        {/* Render all parts in execution order */}
-        <div className="chat-message-parts">
-          {message.parts.map((part: any, partIndex: number) => (
-            <MessagePart key={partIndex} part={part} partIndex={partIndex} messageRole={message.role} />
-          ))}
+        {/* Render all parts in execution order, or the editor while editing */}
+        {isEditing ? (
+          <div className="chat-message-edit">
+            <textarea
+              className="chat-message-edit-input"
+              value={editText}
+              autoFocus
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+            />
+            <div className="chat-message-edit-buttons">
+              <button className="chat-message-edit-button" onClick={() => setIsEditing(false)}>
+                Cancel
+              </button>
+              <button className="chat-message-edit-button chat-message-edit-save" onClick={submitEdit} disabled={!editText.trim()}>
+                Send
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="chat-message-parts">
+            {message.parts.map((part: any, partIndex: number) => (
+              <MessagePart
+                key={partIndex}
+                part={part}
+                partIndex={partIndex}
+                messageRole={message.role}
+                toolStatus={part.toolCallId ? toolStatuses[part.toolCallId] : undefined}
+              />
+            ))}
           
-          {/* Show thinking bubble if this is the last assistant message and we're thinking/processing */}
-          {shouldShowThinking && (
-            <div className="chat-message-thinking">
-              <ThinkingBubble />
+            {isMessageInterrupted(message) && (
+              <div className="chat-message-interrupted">Stopped</div>
+            )}
+
+            {/* Show thinking bubble if this is the last assistant message and we're thinking/processing */}
+            {shouldShowThinking && (
+              <div className="chat-message-thinking">
+                <ThinkingBubble />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!isEditing && !shouldShowThinking && (
+        <div
+          className={`chat-message-actions ${
+            message.role === 'user' ? 'chat-message-actions-user' : 'chat-message-actions-assistant'
+          }`}
+        >
+          {siblingIds.length > 1 && (
+            <div className="chat-message-branches">
+              <button
+                className="chat-message-action"
+                title="Previous version"
+                disabled={isBusy || branchIndex <= 0}
+                onClick={() => switchBranch(siblingIds[branchIndex - 1])}
+              >
+                ‹
+              </button>
+              <span className="chat-message-branch-count">
+                {branchIndex + 1} / {siblingIds.length}
+              </span>
+              <button
+                className="chat-message-action"
+                title="Next version"
+                disabled={isBusy || branchIndex >= siblingIds.length - 1}
+                onClick={() => switchBranch(siblingIds[branchIndex + 1])}
+              >
+                ›
+              </button>
             </div>
           )}
+          {message.role === 'user' && (
+            <button className="chat-message-action" title="Edit" disabled={isBusy} onClick={startEditing}>
+              ✎
+            </button>
+          )}
+          {message.role === 'assistant' && (
+            <button className="chat-message-action" title="Regenerate" disabled={isBusy} onClick={() => regenerateMessage(message.id)}>
+              ↻
+            </button>
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
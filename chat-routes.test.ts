@@ -0,0 +1,249 @@
+import { EventEmitter } from 'node:events';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LanguageModel } from 'ai';
+import { AgentChatRoute, chatHistoryRoute, chatRoute } from './api';
+import { z } from 'zod';
+import { createTool, makeAgentChatRouteConfig } from './config-server';
+import { MemoryStorage } from './memory-storage';
+import type { ChatStorage } from './config';
+
+const usage = { inputTokens: 1, outputTokens: 1, totalTokens: 2 };
+
+// Just enough of a language model for streamText: every call streams the next scripted step,
+// repeating the last one, optionally pausing before each chunk
+function mockModel(steps: Record<string, unknown>[][], delayMs = 0): LanguageModel & { prompts: unknown[] } {
+  const prompts: unknown[] = [];
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId: 'mock',
+    supportedUrls: {},
+    prompts,
+    doGenerate: async () => {
+      throw new Error('not used');
+    },
+    doStream: async ({ prompt }: { prompt: unknown }) => {
+      const chunks = steps[Math.min(prompts.length, steps.length - 1)];
+      prompts.push(prompt);
+      return {
+        stream: new ReadableStream({
+          async start(controller) {
+            for (const chunk of chunks) {
+              if (delayMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+              }
+              controller.enqueue(chunk);
+            }
+            controller.close();
+          },
+        }),
+      };
+    },
+  } as unknown as LanguageModel & { prompts: unknown[] };
+}
+
+function textStep(...deltas: string[]): Record<string, unknown>[] {
+  return [
+    { type: 'stream-start', warnings: [] },
+    { type: 'text-start', id: 'text' },
+    ...deltas.map(delta => ({ type: 'text-delta', id: 'text', delta })),
+    { type: 'text-end', id: 'text' },
+    { type: 'finish', finishReason: 'stop', usage },
+  ];
+}
+
+function toolCallStep(toolCallId: string, toolName: string, input: unknown): Record<string, unknown>[] {
+  return [
+    { type: 'stream-start', warnings: [] },
+    { type: 'tool-call', toolCallId, toolName, input: JSON.stringify(input) },
+    { type: 'finish', finishReason: 'tool-calls', usage },
+  ];
+}
+
+function makeConfig(storage: ChatStorage, options: { claimUnownedConversations?: boolean } = {}) {
+  return makeAgentChatRouteConfig({
+    system_prompt: 'You are a test assistant.',
+    tools: {},
+    auth_func: async req => {
+      const userId = req.headers.get('x-user');
+      return userId ? { userId } : false;
+    },
+    modelConfig: { model: mockModel([textStep('Hello')]) },
+    storage,
+    streamStore: false,
+    ...options,
+  });
+}
+
+type RouteConfig = ReturnType<typeof makeConfig>;
+
+// Send a user message and read the reply to the end, so it is saved
+async function sendMessage(config: RouteConfig, userId: string, conversationId: string, messageId: string): Promise<number> {
+  const response = await chatRoute(config, new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'x-user': userId },
+    body: JSON.stringify({
+      conversation_id: conversationId,
+      messages: [{ id: messageId, role: 'user', parts: [{ type: 'text', text: 'Hi' }] }],
+    }),
+  }));
+  await response.text();
+  // The reply is saved after the stream ends
+  await new Promise(resolve => setTimeout(resolve, 10));
+  return response.status;
+}
+
+async function readHistory(config: RouteConfig, userId: string, conversationId: string): Promise<number> {
+  const response = await chatHistoryRoute(config, new Request(`http://localhost/api/chat/history?conversation_id=${conversationId}`, {
+    headers: { 'x-user': userId },
+  }));
+  return response.status;
+}
+
+describe('conversation ownership', () => {
+  test('the owner keeps using their conversation', async () => {
+    const config = makeConfig(new MemoryStorage());
+
+    assert.equal(await sendMessage(config, 'alice', 'conv_a', 'msg_1'), 200);
+    assert.equal(await sendMessage(config, 'alice', 'conv_a', 'msg_2'), 200);
+    assert.equal(await readHistory(config, 'alice', 'conv_a'), 200);
+  });
+
+  test('another user is forbidden from chat and history', async () => {
+    const config = makeConfig(new MemoryStorage());
+    await sendMessage(config, 'alice', 'conv_a', 'msg_1');
+
+    assert.equal(await sendMessage(config, 'bob', 'conv_a', 'msg_2'), 403);
+    assert.equal(await readHistory(config, 'bob', 'conv_a'), 403);
+  });
+
+  test('storage that records the owner only through updateConversation', async () => {
+    const memory = new MemoryStorage();
+    const storage: ChatStorage = {
+      saveMessage: (conversationId, message) => memory.saveMessage(conversationId, message),
+      getConversation: conversationId => memory.getConversation(conversationId),
+      updateConversation: (conversationId, metadata) => memory.updateConversation(conversationId, metadata),
+    };
+    const config = makeConfig(storage);
+
+    assert.equal(await sendMessage(config, 'alice', 'conv_a', 'msg_1'), 200);
+    assert.equal(await sendMessage(config, 'alice', 'conv_a', 'msg_2'), 200);
+    assert.equal(await readHistory(config, 'bob', 'conv_a'), 403);
+  });
+
+  test('storage that cannot record owners is rejected', () => {
+    const memory = new MemoryStorage();
+    const storage: ChatStorage = {
+      saveMessage: (conversationId, message) => memory.saveMessage(conversationId, message),
+      getConversation: conversationId => memory.getConversation(conversationId),
+    };
+
+    assert.throws(() => makeConfig(storage), /createConversation, updateConversation or canAccessConversation/);
+  });
+
+  test('conversations without an owner are denied unless claiming is enabled', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveMessage('conv_old', { id: 'msg_1', role: 'user', content: 'Hi', timestamp: new Date() });
+
+    assert.equal(await readHistory(makeConfig(storage), 'alice', 'conv_old'), 403);
+
+    const claiming = makeConfig(storage, { claimUnownedConversations: true });
+    assert.equal(await readHistory(claiming, 'alice', 'conv_old'), 200);
+    assert.equal(await readHistory(claiming, 'bob', 'conv_old'), 403);
+  });
+});
+
+// The parts of an Express response AgentChatRoute uses; emit 'close' to disconnect the client
+class FakeExpressResponse extends EventEmitter {
+  writableFinished = false;
+  statusCode = 200;
+  chunks: unknown[] = [];
+
+  setHeader() {}
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+  write(chunk: unknown) {
+    this.chunks.push(chunk);
+    this.emit('data');
+  }
+  end() {
+    this.writableFinished = true;
+  }
+}
+
+describe('resumable replies', () => {
+  test('a reply resumed through Express stops once its client disconnects', async () => {
+    const storage = new MemoryStorage();
+    const config = makeAgentChatRouteConfig({
+      system_prompt: 'You are a test assistant.',
+      tools: {},
+      auth_func: async () => ({ userId: 'alice' }),
+      modelConfig: { model: mockModel([textStep(...Array.from({ length: 40 }, (_, i) => `word${i} `))], 25) },
+      storage,
+      streamDisconnectGraceMs: 50,
+    });
+
+    // Start the reply, then drop the connection that started it
+    const disconnect = new AbortController();
+    const response = await chatRoute(config, new Request('http://localhost/api/chat', {
+      method: 'POST',
+      signal: disconnect.signal,
+      body: JSON.stringify({
+        conversation_id: 'conv_a',
+        messages: [{ id: 'msg_1', role: 'user', parts: [{ type: 'text', text: 'Hi' }] }],
+      }),
+    }));
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    disconnect.abort();
+
+    // Resume through Express, then close that tab too
+    const res = new FakeExpressResponse();
+    const resumed = AgentChatRoute(config)({ url: '/api/chat/stream?conversation_id=conv_a', method: 'GET', headers: {} }, res);
+    await new Promise(resolve => res.once('data', resolve));
+    res.emit('close');
+    await resumed;
+
+    // 40 chunks take a second; the grace period ends the reply long before that
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const conversation = await storage.getConversation('conv_a');
+    const reply = conversation?.messages.find(message => message.role === 'assistant');
+    assert.equal(reply?.interrupted, true);
+  });
+});
+
+describe('tool output limits', () => {
+  test('the model sees the shortened output while the stream keeps the full one', async () => {
+    const content = 'x'.repeat(500);
+    const model = mockModel([toolCallStep('call_1', 'read_file', { file_path: 'a.txt' }), textStep('Done')]);
+    const config = makeAgentChatRouteConfig({
+      system_prompt: 'You are a test assistant.',
+      tools: {
+        read_file: createTool({
+          description: 'Read a file',
+          display_name: 'Reading file',
+          inputSchema: z.object({ file_path: z.string() }),
+          executionConfig: { outputLimit: { maxChars: 100 } },
+          execute: async () => content,
+        }),
+      },
+      auth_func: async () => ({ userId: 'alice' }),
+      modelConfig: { model },
+    });
+
+    const response = await chatRoute(config, new Request('http://localhost/api/chat', {
+      method: 'POST',
+      body: JSON.stringify({ messages: [{ id: 'msg_1', role: 'user', parts: [{ type: 'text', text: 'Read a.txt' }] }] }),
+    }));
+    const stream = await response.text();
+
+    assert.ok(stream.includes(content));
+    const secondPrompt = JSON.stringify(model.prompts[1]);
+    assert.ok(secondPrompt.includes('Output truncated'));
+    assert.ok(!secondPrompt.includes(content));
+  });
+});
@@ -0,0 +1,105 @@
+import { ToolAbortedError, ToolApprovalDeniedError, ToolNonRetryableError } from './tool-execution';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // consecutive failed calls that open the circuit
+  openDurationMs: number; // how long calls fail fast before probes are let through
+  halfOpenProbes?: number; // trial calls after openDurationMs; all must succeed to close (default 1)
+}
+
+export class CircuitOpenError extends Error {
+  constructor(toolName: string) {
+    super(`Tool "${toolName}" is temporarily unavailable after repeated failures`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface CircuitState {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  openedAt: number;
+  probesStarted: number;
+  probesSucceeded: number;
+}
+
+// One circuit per tool name, shared by every conversation in this process
+const circuits = new Map<string, CircuitState>();
+
+// Stopped, denied and invalid calls say nothing about whether the tool is healthy
+function isCircuitFailure(error: unknown): boolean {
+  return !(error instanceof ToolAbortedError) &&
+    !(error instanceof ToolApprovalDeniedError) &&
+    !(error instanceof ToolNonRetryableError);
+}
+
+function openCircuit(circuit: CircuitState): void {
+  circuit.state = 'open';
+  circuit.openedAt = Date.now();
+  circuit.failures = 0;
+}
+
+// Run a tool call through its circuit: fail fast with CircuitOpenError while the circuit is
+// open, and count the outcome otherwise
+export async function executeWithCircuitBreaker<T>(
+  fn: () => Promise<T>,
+  config: CircuitBreakerConfig,
+  toolName: string
+): Promise<T> {
+  let circuit = circuits.get(toolName);
+  if (!circuit) {
+    circuit = { state: 'closed', failures: 0, openedAt: 0, probesStarted: 0, probesSucceeded: 0 };
+    circuits.set(toolName, circuit);
+  }
+
+  const probes = config.halfOpenProbes ?? 1;
+  if (circuit.state === 'open') {
+    if (Date.now() - circuit.openedAt < config.openDurationMs) {
+      throw new CircuitOpenError(toolName);
+    }
+    circuit.state = 'half-open';
+    circuit.probesStarted = 0;
+    circuit.probesSucceeded = 0;
+  }
+
+  const isProbe = circuit.state === 'half-open';
+  if (isProbe) {
+    if (circuit.probesStarted >= probes) {
+      throw new CircuitOpenError(toolName);
+    }
+    circuit.probesStarted++;
+  }
+
+  try {
+    const result = await fn();
+
+    if (isProbe && circuit.state === 'half-open') {
+      circuit.probesSucceeded++;
+      if (circuit.probesSucceeded >= probes) {
+        console.log(`🔌 Circuit for ${toolName} closed`);
+        circuit.state = 'closed';
+        circuit.failures = 0;
+      }
+    } else if (circuit.state === 'closed') {
+      circuit.failures = 0;
+    }
+
+    return result;
+  } catch (error) {
+    if (!isCircuitFailure(error)) {
+      // Hand the probe slot to the next call
+      if (isProbe && circuit.state === 'half-open') {
+        circuit.probesStarted--;
+      }
+      throw error;
+    }
+
+    if (isProbe && circuit.state === 'half-open') {
+      console.warn(`🔌 Circuit for ${toolName} reopened, probe failed`);
+      openCircuit(circuit);
+    } else if (circuit.state === 'closed' && ++circuit.failures >= config.failureThreshold) {
+      console.warn(`🔌 Circuit for ${toolName} opened after ${circuit.failures} failures`);
+      openCircuit(circuit);
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { getToolName, isToolUIPart, type UIMessage } from 'ai';
+import { wrapToolWithTimeoutRetry, type AuthPrincipal, type Tool } from './config-server';
+import type { ToolExecutionConfig } from './tool-execution';
+import { isMessageInterrupted } from './message-interruption';
+
+// The browser doesn't know who auth_func resolved the user to; client tools run as them anyway
+export const CLIENT_PRINCIPAL: AuthPrincipal = { userId: 'client' };
+
+// Give client tools the same input validation, timeout, retry and error results as server tools.
+// Approval waits on a decision sent to the server, so it doesn't apply in the browser
+export function wrapClientTools(
+  tools: Record<string, Tool<any, any>>,
+  executionConfig: ToolExecutionConfig
+): Record<string, Tool<any, any>> {
+  return Object.keys(tools).reduce((acc: Record<string, Tool<any, any>>, toolName: string) => ({
+    ...acc,
+    [toolName]: wrapToolWithTimeoutRetry({ ...tools[toolName], requiresApproval: undefined }, toolName, executionConfig),
+  }), {});
+}
+
+// Whether the reply stopped for tools answered on the client (client and 'user' tools) and every
+// call of that step has its result, so it can be sent back to continue. Steps with only server
+// tools ended for another reason, e.g. the step limit, and are left alone
+export function isClientToolStepComplete(message: UIMessage | undefined, clientToolNames: string[]): boolean {
+  if (message?.role !== 'assistant' || isMessageInterrupted(message)) {
+    return false;
+  }
+
+  const lastStepStart = message.parts.reduce((last, part, index) => part.type === 'step-start' ? index : last, -1);
+  const toolParts = message.parts.slice(lastStepStart + 1).filter(isToolUIPart);
+
+  return toolParts.some(part => clientToolNames.includes(getToolName(part))) &&
+    toolParts.every(part => part.state === 'output-available' || part.state === 'output-error');
+}
@@ -1,17 +1,19 @@
 import { z } from 'zod';
 import { ToolExecutionConfig } from './tool-execution';
+import type { ToolErrorResult } from './tool-errors';
+import type { ToolMiddleware } from './tool-middleware';
 
-export interface ToolCall {
+export interface ToolCall<TInput = any> {
   toolCallId: string;
   toolName: string;
-  input: any;
+  input: TInput;
 }
 
-export interface ToolResult {
+export interface ToolResult<TOutput = any> {
   toolCallId: string;
   toolName: string;
-  output?: any;
-  error?: string;
+  output?: TOutput; // undefined when the call failed
+  error?: ToolErrorResult; // set when the call failed
   isError?: boolean;
 }
 
@@ -23,6 +25,8 @@ export interface ChatMessage {
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
   uiMessageParts?: any[]; // Native AI SDK UIMessagePart format
+  parentId?: string | null; // Message this one follows (null for the first); siblings form branches
+  interrupted?: boolean; // The reply was stopped before it finished; only the partial output is stored
 }
 
 export interface Conversation {
@@ -30,32 +34,97 @@ export interface Conversation {
   messages: ChatMessage[];
   createdAt: Date;
   updatedAt: Date;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // `ownerId` records the userId of the principal that started it
 }
 
-export interface Tool<TSchema extends z.ZodSchema = z.ZodSchema> {
+// Authenticated caller, returned by auth_func and passed to tools and storage
+export interface AuthPrincipal {
+  userId: string;
+  roles?: string[];
+  tenantId?: string;
+  [key: string]: any;
+}
+
+export type ToolRunsOn = 'server' | 'client' | 'user';
+
+// Progress reported by a long-running tool while it works
+export interface ToolCallProgress {
+  percent?: number; // 0-100; leave out when the total isn't known
+  message?: string; // what the tool is doing now, e.g. "Indexed 120 of 400 files"
+  partialOutput?: any; // results so far, shown until the call completes
+}
+
+// What the model saw in place of an output over the tool's outputLimit
+export interface ToolModelOutput {
+  value: string;
+  strategy: 'truncate' | 'head-tail' | 'summary';
+  originalLength: number; // characters in the full output, as JSON unless it is a string
+}
+
+// Live status of a tool call, streamed to the client as a `data-tool-status` part
+export interface ToolCallStatus {
+  toolCallId: string;
+  approval?: 'pending' | 'approved' | 'denied';
+  progress?: ToolCallProgress;
+  cached?: boolean; // the result was served from the tool's cache
+  modelOutput?: ToolModelOutput; // set when the model saw a shortened output
+}
+
+// Per-call context passed to tool execute functions
+export interface ToolCallContext {
+  toolCallId: string;
+  principal: AuthPrincipal;
+  conversationId?: string;
+  reportStatus?: (status: Partial<ToolCallStatus>) => void;
+  reportProgress?: (progress: ToolCallProgress) => void; // replaces the previous progress
+  abortSignal?: AbortSignal; // aborted when the reply is stopped or the call times out (see `reason`)
+}
+
+// Props passed to a tool's renderer; output is typed from the tool's outputSchema or execute
+export interface ToolRendererProps<TInput = any, TOutput = any> {
+  toolCall: ToolCall<TInput>;
+  toolResult?: ToolResult<TOutput>;
+  toolStatus?: ToolCallStatus;
+}
+
+// Input and output types of a tool created with createTool, e.g. InferToolOutput<typeof tools.read_file>
+export type InferToolInput<TTool> = TTool extends { inputSchema: infer TSchema extends z.ZodSchema } ? z.infer<TSchema> : any;
+export type InferToolOutput<TTool> = TTool extends { execute: (...args: any[]) => Promise<infer TOutput> } ? TOutput : any;
+
+export interface Tool<TSchema extends z.ZodSchema = z.ZodSchema, TOutput = any> {
   description: string;
   display_name: string;
   inputSchema: TSchema;
-  execute: (input: z.infer<TSchema>) => Promise<any>;
-  render?: React.ComponentType<{ toolCall: ToolCall; toolResult?: ToolResult }>;
+  outputSchema?: z.ZodType<TOutput, z.ZodTypeDef, unknown>;
+  execute: (input: z.infer<TSchema>, context: ToolCallContext) => Promise<TOutput>;
+  // 'client' tools are sent to the model without an executor and run in the browser by
+  // AgentChatProvider with the same timeout and retry handling, but no approval. 'user' tools
+  // get their result from the user through a form in the chat (default 'server')
+  runsOn?: ToolRunsOn;
+  render?: React.ComponentType<ToolRendererProps<z.infer<TSchema>, TOutput>>;
   executionConfig?: Partial<ToolExecutionConfig>;
+  middleware?: ToolMiddleware<z.infer<TSchema>, TOutput>[];
+  requiresApproval?: boolean | ((input: z.infer<TSchema>) => boolean | Promise<boolean>);
 }
 
 // Helper function to create a typed tool with automatic schema inference (client version with render support)
-export function createTool<TSchema extends z.ZodSchema>(config: {
+export function createTool<TSchema extends z.ZodSchema, TOutput = any>(config: {
   description: string;
   display_name: string;
   inputSchema: TSchema;
-  execute: (input: z.infer<TSchema>) => Promise<any>;
-  render?: React.ComponentType<{ toolCall: ToolCall; toolResult?: ToolResult }>;
+  outputSchema?: z.ZodType<TOutput, z.ZodTypeDef, unknown>;
+  execute: (input: z.infer<TSchema>, context: ToolCallContext) => Promise<TOutput>;
+  runsOn?: ToolRunsOn;
+  render?: React.ComponentType<ToolRendererProps<z.infer<TSchema>, TOutput>>;
   executionConfig?: Partial<ToolExecutionConfig>;
-}): Tool<TSchema> {
+  middleware?: ToolMiddleware<z.infer<TSchema>, TOutput>[];
+  requiresApproval?: boolean | ((input: z.infer<TSchema>) => boolean | Promise<boolean>);
+}): Tool<TSchema, TOutput> {
   return config;
 }
 
 export interface ToolsObject {
-  [key: string]: Tool<any>;
+  [key: string]: Tool<any, any>;
 }
 
 // Helper to safely check if we're in development mode
@@ -72,16 +141,19 @@ function isDevMode(): boolean {
 }
 
 export interface AgentChatConfig {
-  tools: Record<string, { display_name: string; renderKey?: string }>;
+  tools: Record<string, { display_name: string; renderKey?: string; runsOn?: ToolRunsOn }>;
   route: string;
   historyRoute?: string;
-  toolRenderers?: Record<string, React.ComponentType<{ toolCall: ToolCall; toolResult?: ToolResult }>>;
+  conversationsRoute?: string;
+  streamRoute?: string; // Resumes (GET) and stops (DELETE) the reply being generated
+  toolRenderers?: Record<string, React.ComponentType<ToolRendererProps>>;
+  clientTools?: Record<string, Tool<any, any>>; // Tools with runsOn: 'client', executed in the browser
   toolExecution?: ToolExecutionConfig;
   showDebugPanel?: boolean; // Show debug panel (defaults to NODE_ENV === 'development')
   headers?: Record<string, string>; // Custom headers to pass to chat requests
 }
 
-const DEFAULT_TOOL_EXECUTION_CONFIG: ToolExecutionConfig = {
+export const DEFAULT_TOOL_EXECUTION_CONFIG: ToolExecutionConfig = {
   timeoutMs: 30000, // 30 seconds
   retries: 3,
   retryDelayMs: 1000, // 1 second initial delay
@@ -92,6 +164,8 @@ export function makeAgentChatClientConfig<TTools extends ToolsObject>({
   tools,
   toolExecutionConfig,
   historyRoute,
+  conversationsRoute,
+  streamRoute,
   showDebugPanel,
   headers
 }: {
@@ -99,6 +173,8 @@ export function makeAgentChatClientConfig<TTools extends ToolsObject>({
   tools: TTools;
   toolExecutionConfig?: Partial<ToolExecutionConfig>;
   historyRoute?: string;
+  conversationsRoute?: string;
+  streamRoute?: string;
   showDebugPanel?: boolean;
   headers?: Record<string, string>;
 }): AgentChatConfig {
@@ -108,14 +184,22 @@ export function makeAgentChatClientConfig<TTools extends ToolsObject>({
     ...acc, [toolName]: {
       display_name: tools[toolName].display_name,
       renderKey: tools[toolName].render ? toolName : undefined,
+      runsOn: tools[toolName].runsOn,
     }
-  }), {} as Record<string, { display_name: string; renderKey?: string }>);
+  }), {} as Record<string, { display_name: string; renderKey?: string; runsOn?: ToolRunsOn }>);
+
+  const clientTools = Object.keys(tools)
+    .filter(toolName => tools[toolName].runsOn === 'client')
+    .reduce((acc: Record<string, Tool<any, any>>, toolName: string) => ({ ...acc, [toolName]: tools[toolName] }), {});
   
   return {
     tools: toolsMap,
     route,
     historyRoute: historyRoute || `${route}/history`,
+    conversationsRoute: conversationsRoute || `${route}/conversations`,
+    streamRoute: streamRoute || `${route}/stream`,
     toolExecution: finalExecutionConfig,
+    ...(Object.keys(clientTools).length > 0 && { clientTools }),
     showDebugPanel: showDebugPanel ?? isDevMode(), // Default to development mode detection
     headers,
     // toolRenderers should be added separately on client-side
@@ -137,7 +221,7 @@ export function makeAgentChatConfig<TTools extends ToolsObject>({
   system_prompt: string;
   route: string;
   tools: TTools;
-  auth_func: () => Promise<boolean>;
+  auth_func: (req: Request) => Promise<AuthPrincipal | boolean | null>;
   toolExecutionConfig?: Partial<ToolExecutionConfig>;
   modelConfig?: any;
   storage?: any;
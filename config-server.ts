@@ -1,18 +1,54 @@
 import { z } from 'zod';
 import type { LanguageModel, StepResult, StopCondition } from 'ai';
-import { executeWithRetry, ToolExecutionConfig } from './tool-execution';
+import {
+  ToolExecutionConfig,
+  ToolOutputValidationError,
+  ToolValidationError,
+} from './tool-execution';
+import { toToolErrorResult, type ToolErrorResult } from './tool-errors';
+import { MemoryStreamStore, type StreamStore } from './resumable-stream';
+import { ToolLimiter, type ToolLimitsConfig } from './tool-limits';
+import {
+  approvalMiddleware,
+  cacheMiddleware,
+  circuitBreakerMiddleware,
+  composeToolMiddleware,
+  limitsMiddleware,
+  retryMiddleware,
+  timeoutMiddleware,
+  type ToolMiddleware,
+} from './tool-middleware';
+import { limitToolOutput } from './tool-output-limits';
 
-export interface ToolCall {
+// Errors a tool can throw to steer retries
+export {
+  ToolNonRetryableError,
+  ToolOutputValidationError,
+  ToolRetryAfterError,
+  ToolUnauthorizedError,
+  ToolValidationError,
+} from './tool-execution';
+export type { RetryJitter, ToolExecutionConfig, ToolValidationIssue } from './tool-execution';
+export { CircuitOpenError } from './circuit-breaker';
+export { ToolBudgetExceededError } from './tool-limits';
+export type { ToolLimitsConfig } from './tool-limits';
+export { MemoryToolCacheStore } from './tool-cache';
+export type { ToolCacheConfig, ToolCacheStore } from './tool-cache';
+export type { ToolMiddleware, ToolMiddlewareContext } from './tool-middleware';
+export type { ToolOutputLimit, ToolOutputSummarizer } from './tool-output-limits';
+export type { CircuitBreakerConfig } from './circuit-breaker';
+
+export interface ToolCall<TInput = any> {
   toolCallId: string;
   toolName: string;
-  input: any;
+  input: TInput;
 }
 
-export interface ToolResult {
+export interface ToolResult<TOutput = any> {
   toolCallId: string;
   toolName: string;
-  output?: any;
-  error?: string;
+  output?: TOutput; // undefined when the call failed
+  error?: ToolErrorResult; // set when the call failed
   isError?: boolean;
 }
 
@@ -24,6 +60,8 @@ export interface ChatMessage {
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
   uiMessageParts?: any[]; // Native AI SDK UIMessagePart format
+  parentId?: string | null; // Message this one follows (null for the first); siblings form branches
+  interrupted?: boolean; // The reply was stopped before it finished; only the partial output is stored
 }
 
 export interface Conversation {
@@ -31,105 +69,285 @@ export interface Conversation {
   messages: ChatMessage[];
   createdAt: Date;
   updatedAt: Date;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // `ownerId` records the userId of the principal that started it
+}
+
+// Authenticated caller, returned by auth_func and passed to tools and storage
+export interface AuthPrincipal {
+  userId: string;
+  roles?: string[];
+  tenantId?: string;
+  [key: string]: any;
+}
+
+// Resolve the caller from the incoming request; false / null rejects it, true allows it anonymously
+export type AuthFunc = (req: Request) => Promise<AuthPrincipal | boolean | null>;
+
+export type ToolRunsOn = 'server' | 'client' | 'user';
+
+// Progress reported by a long-running tool while it works
+export interface ToolCallProgress {
+  percent?: number; // 0-100; leave out when the total isn't known
+  message?: string; // what the tool is doing now, e.g. "Indexed 120 of 400 files"
+  partialOutput?: any; // results so far, shown until the call completes
+}
+
+// What the model saw in place of an output over the tool's outputLimit
+export interface ToolModelOutput {
+  value: string;
+  strategy: 'truncate' | 'head-tail' | 'summary';
+  originalLength: number; // characters in the full output, as JSON unless it is a string
+}
+
+// Live status of a tool call, streamed to the client as a `data-tool-status` part
+export interface ToolCallStatus {
+  toolCallId: string;
+  approval?: 'pending' | 'approved' | 'denied';
+  progress?: ToolCallProgress;
+  cached?: boolean; // the result was served from the tool's cache
+  modelOutput?: ToolModelOutput; // set when the model saw a shortened output
 }
 
+// Per-call context passed to tool execute functions
+export interface ToolCallContext {
+  toolCallId: string;
+  principal: AuthPrincipal;
+  conversationId?: string;
+  reportStatus?: (status: Partial<ToolCallStatus>) => void;
+  reportProgress?: (progress: ToolCallProgress) => void; // replaces the previous progress
+  abortSignal?: AbortSignal; // aborted when the reply is stopped or the call times out (see `reason`)
+}
+
+// Every method receives the authenticated principal so implementations can scope data per user
 export interface ChatStorage {
-  // Save a message to a conversation
-  saveMessage(conversationId: string, message: ChatMessage): Promise<void>;
+  // Save a message to a conversation. Without a parentId it continues from the latest message;
+  // a parentId pointing at an earlier message forks a new branch from there
+  saveMessage(conversationId: string, message: ChatMessage, principal?: AuthPrincipal): Promise<void>;
   
-  // Get conversation history
-  getConversation(conversationId: string): Promise<Conversation | null>;
+  // Replace the message with the same id in place, e.g. when a user message is edited (optional)
+  replaceMessage?(conversationId: string, message: ChatMessage, principal?: AuthPrincipal): Promise<void>;
+  
+  // Get conversation history (every branch, in the order messages were saved)
+  getConversation(conversationId: string, principal?: AuthPrincipal): Promise<Conversation | null>;
   
   // List conversations (optional, for conversation management)
-  listConversations?(limit?: number, offset?: number): Promise<Conversation[]>;
+  listConversations?(limit?: number, offset?: number, principal?: AuthPrincipal): Promise<Conversation[]>;
   
   // Create a new conversation
-  createConversation?(conversationId: string, metadata?: Record<string, any>): Promise<Conversation>;
+  createConversation?(conversationId: string, metadata?: Record<string, any>, principal?: AuthPrincipal): Promise<Conversation>;
+  
+  // Merge metadata into a conversation, e.g. to rename it (optional)
+  updateConversation?(conversationId: string, metadata: Record<string, any>, principal?: AuthPrincipal): Promise<Conversation>;
   
   // Delete a conversation (optional)
-  deleteConversation?(conversationId: string): Promise<void>;
+  deleteConversation?(conversationId: string, principal?: AuthPrincipal): Promise<void>;
+  
+  // Decide whether the principal may read or write the conversation (optional, defaults to
+  // comparing `metadata.ownerId` with `principal.userId`, denying conversations without an owner)
+  canAccessConversation?(conversation: Conversation, principal: AuthPrincipal): Promise<boolean>;
 }
 
-export interface Tool<TSchema extends z.ZodSchema = z.ZodSchema> {
+export interface Tool<TSchema extends z.ZodSchema = z.ZodSchema, TOutput = any> {
   description: string;
   display_name: string;
   inputSchema: TSchema;
-  execute: (input: z.infer<TSchema>) => Promise<any>;
+  // Checked on the server before the result reaches the model; also types `toolResult.output`
+  outputSchema?: z.ZodType<TOutput, z.ZodTypeDef, unknown>;
+  execute: (input: z.infer<TSchema>, context: ToolCallContext) => Promise<TOutput>;
+  // 'client' tools are sent to the model without an executor and run in the browser by
+  // AgentChatProvider with the same timeout and retry handling, but no approval. 'user' tools
+  // get their result from the user through a form in the chat (default 'server')
+  runsOn?: ToolRunsOn;
   executionConfig?: Partial<ToolExecutionConfig>;
+  // Run around this tool's calls, inside the route's middleware (see ToolMiddleware)
+  middleware?: ToolMiddleware<z.infer<TSchema>, TOutput>[];
+  // Pause for a human Approve / Deny before running (always, or only when the predicate returns true)
+  requiresApproval?: boolean | ((input: z.infer<TSchema>) => boolean | Promise<boolean>);
 }
 
 // Helper function to create a typed tool with automatic schema inference
-export function createTool<TSchema extends z.ZodSchema>(config: {
+export function createTool<TSchema extends z.ZodSchema, TOutput = any>(config: {
   description: string;
   display_name: string;
   inputSchema: TSchema;
-  execute: (input: z.infer<TSchema>) => Promise<any>;
+  outputSchema?: z.ZodType<TOutput, z.ZodTypeDef, unknown>;
+  execute: (input: z.infer<TSchema>, context: ToolCallContext) => Promise<TOutput>;
+  runsOn?: ToolRunsOn;
   executionConfig?: Partial<ToolExecutionConfig>;
-}): Tool<TSchema> {
+  middleware?: ToolMiddleware<z.infer<TSchema>, TOutput>[];
+  requiresApproval?: boolean | ((input: z.infer<TSchema>) => boolean | Promise<boolean>);
+}): Tool<TSchema, TOutput> {
   return config;
 }
 
-// Helper function to wrap tool execution with timeout/retry
-export function wrapToolWithTimeoutRetry<TSchema extends z.ZodSchema>(
-  tool: Tool<TSchema>,
+// Whether the storage can give a conversation its owner, or decides access itself. Without
+// either, conversations would be saved without an owner and denied to everyone
+export function canRecordConversationOwners(storage: ChatStorage): boolean {
+  return !!(storage.createConversation || storage.updateConversation || storage.canAccessConversation);
+}
+
+// Tools returned by wrapToolWithTimeoutRetry, which check their input against inputSchema
+const inputValidatingTools = new WeakSet<object>();
+
+// Whether the tool reports invalid input itself, so the AI SDK's own validation can be skipped
+export function validatesOwnInput(tool: object): boolean {
+  return inputValidatingTools.has(tool);
+}
+
+// Check tool input against its schema, returning the parsed value (with defaults applied)
+function parseToolInput<TSchema extends z.ZodSchema>(schema: TSchema, input: unknown, toolName: string): z.infer<TSchema> {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issues = parsed.error.issues.map(issue => ({ path: issue.path, message: issue.message }));
+  const summary = issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+  throw new ToolValidationError(`Invalid input for tool "${toolName}": ${summary}`, { issues });
+}
+
+function parseToolOutput<TOutput>(schema: z.ZodType<TOutput, z.ZodTypeDef, unknown>, output: unknown, toolName: string): TOutput {
+  const parsed = schema.safeParse(output);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new ToolOutputValidationError(
+    toolName,
+    parsed.error.issues.map(issue => ({ path: issue.path, message: issue.message }))
+  );
+}
+
+// Helper function to wrap tool execution with timeout/retry. Calls run through the middleware
+// (outermost first), then the built-in chain: cache, approval, limits, circuit breaker, retry
+// and timeout. Tools sharing a limiter share its concurrency slots and conversation budgets
+export function wrapToolWithTimeoutRetry<TSchema extends z.ZodSchema, TOutput = any>(
+  tool: Tool<TSchema, TOutput>,
   toolName: string,
-  globalExecutionConfig: ToolExecutionConfig
-): Tool<TSchema> {
+  globalExecutionConfig: ToolExecutionConfig,
+  limiter: ToolLimiter = new ToolLimiter(),
+  middleware: ToolMiddleware[] = []
+): Tool<TSchema, TOutput> {
   // Merge global config with per-tool config, per-tool takes priority
-  const finalExecutionConfig = { ...globalExecutionConfig, ...tool.executionConfig };
-  
-  return {
+  const finalExecutionConfig = {
+    approvalTimeoutMs: DEFAULT_TOOL_EXECUTION_CONFIG.approvalTimeoutMs,
+    ...globalExecutionConfig,
+    ...tool.executionConfig,
+  };
+
+  const chain: ToolMiddleware[] = [
+    ...middleware,
+    ...(tool.middleware ?? []),
+    cacheMiddleware,
+    approvalMiddleware(tool.requiresApproval),
+    limitsMiddleware(limiter),
+    circuitBreakerMiddleware,
+    retryMiddleware,
+    timeoutMiddleware,
+  ];
+
+  const wrapped: Tool<TSchema, TOutput> = {
     ...tool,
-    execute: async (input: z.infer<TSchema>) => {
+    execute: async (rawInput: z.infer<TSchema>, context: ToolCallContext) => {
+      const startedAt = Date.now();
+      let attempts = 0;
+
+      const run = composeToolMiddleware<TOutput>(chain, async ctx => {
+        attempts++;
+        const output = await tool.execute(ctx.input, ctx);
+        return tool.outputSchema ? parseToolOutput(tool.outputSchema, output, toolName) : output;
+      });
+
       try {
-        return await executeWithRetry(
-          () => tool.execute(input),
-          finalExecutionConfig,
-          toolName
-        );
+        // Invalid arguments go back to the model with the offending fields, so it can fix them
+        const input = parseToolInput(tool.inputSchema, rawInput, toolName);
+
+        const output = await run({ ...context, toolName, input, executionConfig: finalExecutionConfig });
+
+        // Shortened after the middleware, so the model never sees more than it returned. Only
+        // tools that report a status can pass the shortened output on
+        const { outputLimit } = finalExecutionConfig;
+        if (outputLimit && context.reportStatus) {
+          const modelOutput = await limitToolOutput(output, outputLimit, toolName);
+          if (modelOutput) {
+            context.reportStatus({ modelOutput });
+          }
+        }
+        return output;
       } catch (error) {
         // Return error information as part of the result so it reaches the UI
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const errorType = error instanceof Error ? error.constructor.name : 'Error';
-        
-        console.error(`🚨 Tool ${toolName} failed, returning error result:`, errorMessage);
-        
-        return {
-          __toolError: true,
-          __errorType: errorType,
-          __errorMessage: errorMessage,
-          error: errorMessage,
-          success: false
-        } as any;
+        const errorResult = toToolErrorResult(error, {
+          retries: Math.max(0, attempts - 1),
+          durationMs: Date.now() - startedAt,
+        });
+
+        console.error(`🚨 Tool ${toolName} failed, returning error result:`, errorResult.message);
+
+        return errorResult as any;
       }
     }
   };
+
+  inputValidatingTools.add(wrapped);
+  return wrapped;
 }
 
 export interface ToolsObject {
   [key: string]: Tool<any>;
 }
 
+// What a request's tools can depend on
+export interface ToolsContext {
+  principal: AuthPrincipal;
+  conversationId?: string;
+  conversation: Conversation | null; // null for a new conversation, or without storage
+  request: Request; // e.g. for feature flag headers
+}
+
+// Picks the tools for one request, e.g. by role. Called once per request
+export type ToolsResolver<TTools extends Record<string, any> = ToolsObject> = (ctx: ToolsContext) => TTools | Promise<TTools>;
+
+// Titles a conversation (metadata.title) after its first assistant reply
+export interface TitleGenerationConfig {
+  enabled: boolean;
+  model?: LanguageModel; // defaults to the chat model, a smaller model is usually enough
+  prompt?: string; // system prompt for the title call
+}
+
 export interface ModelConfig<TTools extends Record<string, any>> {
   model: LanguageModel;
   temperature?: number;
   stopWhen?: StopCondition<TTools>;
   onStepFinish?: (step: StepResult<TTools>) => void;
+  titleGeneration?: TitleGenerationConfig;
 }
 
 export interface AgentChatRouteConfig<TTools extends Record<string, any> = Record<string, any>> {
-  tools: TTools;
+  tools: TTools | ToolsResolver<TTools>;
   system_prompt: string;
-  auth_func: () => Promise<boolean>;
+  auth_func: AuthFunc;
   model?: ModelConfig<TTools>;
   storage?: ChatStorage;
+  // Buffers replies so clients can reconnect to them. While set, a reply keeps generating after
+  // the client disconnects, until it is stopped or no client has followed it for
+  // `streamDisconnectGraceMs`
+  streamStore?: StreamStore;
+  // How long a resumable reply keeps generating with no client following it (default 30
+  // seconds). Only clients connected to the instance generating the reply count, so with a
+  // StreamStore shared across instances raise it, or pass Infinity to only stop replies explicitly
+  streamDisconnectGraceMs?: number;
+  // Let the first user to open a conversation without a recorded owner claim it, e.g. to migrate
+  // conversations saved before owners were recorded. Off by default, which denies them
+  claimUnownedConversations?: boolean;
 }
 
 const DEFAULT_TOOL_EXECUTION_CONFIG: ToolExecutionConfig = {
   timeoutMs: 30000, // 30 seconds
   retries: 3,
   retryDelayMs: 1000, // 1 second initial delay
+  approvalTimeoutMs: 300000, // 5 minutes to approve or deny
 };
 
 export function makeAgentChatRouteConfig<TTools extends ToolsObject>({
@@ -138,28 +356,47 @@ export function makeAgentChatRouteConfig<TTools extends ToolsObject>({
   auth_func,
   toolExecutionConfig,
   modelConfig,
-  storage
+  storage,
+  streamStore,
+  toolLimits,
+  toolMiddleware,
+  claimUnownedConversations,
+  streamDisconnectGraceMs
 }: {
   system_prompt: string;
-  tools: TTools;
-  auth_func: () => Promise<boolean>;
+  tools: TTools | ToolsResolver<TTools>; // or a function picking each request's tools
+  auth_func: AuthFunc;
   toolExecutionConfig?: Partial<ToolExecutionConfig>;
   modelConfig?: ModelConfig<TTools>;
   storage?: ChatStorage;
+  streamStore?: StreamStore | false; // Defaults to a MemoryStreamStore, false turns resuming off
+  streamDisconnectGraceMs?: number; // How long a reply nobody follows keeps generating, default 30s
+  toolLimits?: ToolLimitsConfig; // Concurrency and per-conversation budgets across all tools
+  toolMiddleware?: ToolMiddleware[]; // Runs around every tool call, outside each tool's own middleware
+  claimUnownedConversations?: boolean; // The first user to open a conversation without an owner claims it
 }): AgentChatRouteConfig<TTools> {
+  if (storage && !canRecordConversationOwners(storage)) {
+    throw new Error('storage must implement createConversation, updateConversation or canAccessConversation, so conversations get an owner');
+  }
+
   const finalExecutionConfig = { ...DEFAULT_TOOL_EXECUTION_CONFIG, ...toolExecutionConfig };
+  const limiter = new ToolLimiter(toolLimits);
   
   // Wrap tools with timeout/retry logic
-  const wrappedTools = Object.keys(tools).reduce((acc: TTools, toolName: string) => ({
+  const wrapTools = (toolsToWrap: TTools) => Object.keys(toolsToWrap).reduce((acc: TTools, toolName: string) => ({
     ...acc,
-    [toolName]: wrapToolWithTimeoutRetry(tools[toolName], toolName, finalExecutionConfig)
+    [toolName]: wrapToolWithTimeoutRetry(toolsToWrap[toolName], toolName, finalExecutionConfig, limiter, toolMiddleware)
   }), {} as TTools);
   
   return {
-    tools: wrappedTools,
+    // Resolved tools are wrapped per request, sharing the limits and middleware of static ones
+    tools: typeof tools === 'function' ? async (ctx: ToolsContext) => wrapTools(await tools(ctx)) : wrapTools(tools),
     system_prompt,
     auth_func,
     model: modelConfig,
     storage,
+    streamStore: streamStore === false ? undefined : streamStore ?? new MemoryStreamStore(),
+    streamDisconnectGraceMs,
+    claimUnownedConversations,
   };
 }
\ No newline at end of file
@@ -2,6 +2,9 @@
 // Client-side exports (with React component support)
 export type {
   AgentChatConfig,
+  ToolRendererProps,
+  InferToolInput,
+  InferToolOutput,
 } from './config-client';
 
 export {
@@ -11,19 +14,44 @@ export {
 // Server-side exports
 export type {
   AgentChatRouteConfig,
+  AuthFunc,
+  AuthPrincipal,
   ChatStorage,
   ModelConfig,
+  TitleGenerationConfig,
+  ToolLimitsConfig,
+  ToolCacheConfig,
+  ToolCacheStore,
+  ToolMiddleware,
+  ToolMiddlewareContext,
+  ToolOutputLimit,
+  ToolOutputSummarizer,
+  ToolsContext,
+  ToolsResolver,
 } from './config-server';
 
 export {
   makeAgentChatRouteConfig,
   wrapToolWithTimeoutRetry,
+  ToolNonRetryableError,
+  ToolOutputValidationError,
+  ToolRetryAfterError,
+  ToolUnauthorizedError,
+  ToolValidationError,
+  CircuitOpenError,
+  ToolBudgetExceededError,
+  MemoryToolCacheStore,
 } from './config-server';
 
 // Common exports (use server version as canonical)
 export type {
   ToolCall,
   ToolResult,
+  ToolCallStatus,
+  ToolCallProgress,
+  ToolModelOutput,
+  ToolCallContext,
+  ToolRunsOn,
   ChatMessage,
   Conversation,
   Tool,
@@ -34,10 +62,24 @@ export {
   createTool,
 } from './config-server';
 
+export type { AskUserAnswer, AskUserField, AskUserInput } from './ask-user';
+export { askUserInputSchema, createAskUserTool } from './ask-user';
+
+export type { ToolErrorCode, ToolErrorResult } from './tool-errors';
+export {
+  TOOL_ERROR_RESULT_VERSION,
+  isToolErrorResult,
+  parseToolErrorResult,
+  getToolPartError,
+} from './tool-errors';
+
 // For backward compatibility, also provide the combined makeAgentChatConfig function
 import { makeAgentChatClientConfig } from './config-client';
-import { makeAgentChatRouteConfig, type ModelConfig, type ChatStorage, type ToolsObject } from './config-server';
+import { makeAgentChatRouteConfig, type AuthFunc, type ModelConfig, type ChatStorage, type ToolsObject } from './config-server';
 import type { ToolExecutionConfig } from './tool-execution';
+import type { StreamStore } from './resumable-stream';
+import type { ToolLimitsConfig } from './tool-limits';
+import type { ToolMiddleware } from './tool-middleware';
 
 export function makeAgentChatConfig<TTools extends ToolsObject>({
   system_prompt,
@@ -47,21 +89,27 @@ export function makeAgentChatConfig<TTools extends ToolsObject>({
   toolExecutionConfig,
   modelConfig,
   storage,
+  streamStore,
+  toolLimits,
+  toolMiddleware,
   historyRoute,
   showDebugPanel
 }: {
   system_prompt: string;
   route: string;
   tools: TTools;
-  auth_func: () => Promise<boolean>;
+  auth_func: AuthFunc;
   toolExecutionConfig?: Partial<ToolExecutionConfig>;
   modelConfig?: ModelConfig<TTools>;
   storage?: ChatStorage;
+  streamStore?: StreamStore | false;
+  toolLimits?: ToolLimitsConfig;
+  toolMiddleware?: ToolMiddleware[];
   historyRoute?: string;
   showDebugPanel?: boolean;
 }) {
   return {
     agentChatConfig: makeAgentChatClientConfig({ route, tools, toolExecutionConfig, historyRoute, showDebugPanel }),
-    agentChatRouteConfig: makeAgentChatRouteConfig({ system_prompt, tools, auth_func, toolExecutionConfig, modelConfig, storage })
+    agentChatRouteConfig: makeAgentChatRouteConfig({ system_prompt, tools, auth_func, toolExecutionConfig, modelConfig, storage, streamStore, toolLimits, toolMiddleware })
   };
 }
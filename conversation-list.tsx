@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AgentChatConfig } from './config';
+
+// Conversation summary as returned by the conversations route (dates are serialized)
+interface ConversationListItem {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  metadata?: Record<string, any>;
+  messageCount: number;
+}
+
+interface ConversationListProps {
+  config: AgentChatConfig;
+  activeConversationId?: string;
+  onSelectConversation: (conversationId: string) => void;
+  pageSize?: number;
+  className?: string;
+}
+
+export const ConversationList = ({
+  config,
+  activeConversationId,
+  onSelectConversation,
+  pageSize = 20,
+  className = '',
+}: ConversationListProps) => {
+  const [conversations, setConversations] = useState<ConversationListItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  // Where the next page starts, as returned by the route; it counts rows hidden from this user too
+  const [nextOffset, setNextOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const conversationsRoute = config.conversationsRoute || `${config.route}/conversations`;
+
+  const request = (method: string, params: Record<string, string> = {}, body?: unknown) => {
+    const url = new URL(conversationsRoute, window.location.origin);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    return fetch(url.toString(), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+
+  const loadConversations = async (offset: number) => {
+    setIsLoading(true);
+    try {
+      const response = await request('GET', { limit: String(pageSize), offset: String(offset) });
+      if (!response.ok) {
+        console.error('Failed to load conversations:', response.statusText);
+        return;
+      }
+
+      const page = await response.json();
+      setConversations(prev => offset === 0 ? page.conversations : [...prev, ...page.conversations]);
+      setHasMore(page.hasMore);
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload when the active conversation changes so newly started conversations show up
+  useEffect(() => {
+    loadConversations(0);
+  }, [conversationsRoute, activeConversationId]);
+
+  const handleCreate = async () => {
+    try {
+      const response = await request('POST', {}, {});
+      if (!response.ok) {
+        console.error('Failed to create conversation:', response.statusText);
+        return;
+      }
+
+      const conversation: ConversationListItem = await response.json();
+      setConversations(prev => [conversation, ...prev]);
+      // The new conversation sorts first, pushing the rest of the list down a row
+      setNextOffset(prev => prev + 1);
+      onSelectConversation(conversation.id);
+    } catch (error) {
+      console.error('Failed to create conversation:', error);
+    }
+  };
+
+  const handleRename = async (conversationId: string) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title) {
+      return;
+    }
+
+    try {
+      const response = await request('PATCH', {}, { conversation_id: conversationId, metadata: { title } });
+      if (!response.ok) {
+        console.error('Failed to rename conversation:', response.statusText);
+        return;
+      }
+
+      const updated: ConversationListItem = await response.json();
+      setConversations(prev => prev.map(conversation => conversation.id === conversationId ? updated : conversation));
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    try {
+      const response = await request('DELETE', { conversation_id: conversationId });
+      if (!response.ok) {
+        console.error('Failed to delete conversation:', response.statusText);
+        return;
+      }
+
+      const remaining = conversations.filter(conversation => conversation.id !== conversationId);
+      setConversations(remaining);
+      setNextOffset(prev => Math.max(0, prev - 1));
+
+      // Move away from a deleted active conversation
+      if (conversationId === activeConversationId) {
+        if (remaining.length > 0) {
+          onSelectConversation(remaining[0].id);
+        } else {
+          await handleCreate();
+        }
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  };
+
+  const getTitle = (conversation: ConversationListItem) => {
+    return conversation.metadata?.title || 'New conversation';
+  };
+
+  return (
+    <div className={`conversation-list ${className}`}>
+      <button className="conversation-list-new" onClick={handleCreate}>
+        New conversation
+      </button>
+
+      <ul className="conversation-list-items">
+        {conversations.map(conversation => (
+          <li
+            key={conversation.id}
+            className={`conversation-list-item ${conversation.id === activeConversationId ? 'conversation-list-item-active' : ''}`}
+            onClick={() => onSelectConversation(conversation.id)}
+          >
+            {editingId === conversation.id ? (
+              <input
+                className="conversation-list-rename"
+                value={editingTitle}
+                autoFocus
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={() => handleRename(conversation.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename(conversation.id);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+              />
+            ) : (
+              <span className="conversation-list-title">{getTitle(conversation)}</span>
+            )}
+            <div className="conversation-list-actions">
+              <button
+                className="conversation-list-action"
+                title="Rename"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditingId(conversation.id);
+                  setEditingTitle(getTitle(conversation));
+                }}
+              >
+                ✎
+              </button>
+              <button
+                className="conversation-list-action"
+                title="Delete"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(conversation.id);
+                }}
+              >
+                ×
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isLoading && <div className="conversation-list-status">Loading conversations...</div>}
+
+      {!isLoading && hasMore && (
+        <button className="conversation-list-more" onClick={() => loadConversations(nextOffset)}>
+          Load more
+        </button>
+      )}
+    </div>
+  );
+};
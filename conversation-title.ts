@@ -0,0 +1,30 @@
+import { generateText, type LanguageModel } from 'ai';
+
+export const DEFAULT_TITLE_PROMPT = `You write short titles for chat conversations.
+Reply with a title of at most 6 words that describes what the user wants.
+Do not use quotes, punctuation at the end, or the word "conversation".`;
+
+const MAX_TITLE_LENGTH = 80;
+
+// Ask the model for a short title describing the first exchange of a conversation
+export async function generateConversationTitle({
+  model,
+  prompt = DEFAULT_TITLE_PROMPT,
+  userText,
+  assistantText,
+}: {
+  model: LanguageModel;
+  prompt?: string;
+  userText: string;
+  assistantText: string;
+}): Promise<string | null> {
+  const { text } = await generateText({
+    model,
+    system: prompt,
+    prompt: `User: ${userText.slice(0, 2000)}\n\nAssistant: ${assistantText.slice(0, 2000)}`,
+    temperature: 0,
+  });
+
+  const title = text.trim().replace(/^["'\s]+|["'.\s]+$/g, '').slice(0, MAX_TITLE_LENGTH);
+  return title || null;
+}
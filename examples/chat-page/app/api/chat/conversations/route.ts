@@ -0,0 +1,18 @@
+import { conversationsRoute } from "react-ai-agent-chat-sdk/api";
+import { agentChatRouteConfig } from "@/lib/agent-config";
+
+export async function GET(req: Request) {
+  return conversationsRoute(agentChatRouteConfig, req);
+}
+
+export async function POST(req: Request) {
+  return conversationsRoute(agentChatRouteConfig, req);
+}
+
+export async function PATCH(req: Request) {
+  return conversationsRoute(agentChatRouteConfig, req);
+}
+
+export async function DELETE(req: Request) {
+  return conversationsRoute(agentChatRouteConfig, req);
+}
@@ -0,0 +1,10 @@
+import { chatStreamRoute } from "react-ai-agent-chat-sdk/api";
+import { agentChatRouteConfig } from "@/lib/agent-config";
+
+export async function GET(req: Request) {
+  return chatStreamRoute(agentChatRouteConfig, req);
+}
+
+export async function DELETE(req: Request) {
+  return chatStreamRoute(agentChatRouteConfig, req);
+}
\ No newline at end of file
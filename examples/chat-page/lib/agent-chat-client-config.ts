@@ -2,6 +2,7 @@
 
 import { AgentChatConfig } from 'react-ai-agent-chat-sdk/config-client';
 import { ToolRenderer } from './agent-tools';
+import { clientTools } from './client-tools';
 
 // Create client configuration directly
 export const agentChatClientConfig: AgentChatConfig = {
@@ -9,9 +10,13 @@ export const agentChatClientConfig: AgentChatConfig = {
     read_file: { display_name: "Reading file" },
     edit_file: { display_name: "Editing file" },
     list_files: { display_name: "Listing files", renderKey: "list_files" },
+    get_page_selection: { display_name: "Reading selection" },
+    ask_user: { display_name: "Question", runsOn: 'user' },
   },
+  clientTools,
   route: "/api/chat",
   historyRoute: "/api/chat/history",
+  conversationsRoute: "/api/chat/conversations",
   toolRenderers: {
     'list_files': ToolRenderer,
   },
@@ -1,7 +1,9 @@
 import { z } from 'zod';
-import { makeAgentChatRouteConfig, createTool } from 'react-ai-agent-chat-sdk/config-server';
+import { makeAgentChatRouteConfig, createTool, type ToolCallContext } from 'react-ai-agent-chat-sdk/config-server';
+import { createAskUserTool } from 'react-ai-agent-chat-sdk/config';
 import { makeAgentChatClientConfig } from 'react-ai-agent-chat-sdk/config-client';
 import { ToolRenderer } from './agent-tools';
+import { clientTools } from './client-tools';
 import { MemoryStorage } from 'react-ai-agent-chat-sdk/storage';
 
 // Mock file system - in memory storage
@@ -44,6 +46,11 @@ const editFileSchema = z.object({
 
 const listFilesSchema = z.object({});
 
+const listFilesOutputSchema = z.object({
+  files: z.array(z.string()),
+  count: z.number(),
+});
+
 // Define tool execution functions separately
 const executeReadFile = async ({ file_path }: z.infer<typeof readFileSchema>) => {
   console.log('🔧 TOOL EXECUTED: read_file with path:', file_path);
@@ -77,10 +84,16 @@ const executeEditFile = async ({ file_path, content }: z.infer<typeof editFileSc
   return result;
 };
 
-const executeListFiles = async ({ }: z.infer<typeof listFilesSchema>) => {
+const executeListFiles = async ({ }: z.infer<typeof listFilesSchema>, { reportProgress }: ToolCallContext) => {
   console.log('🔧 TOOL EXECUTED: list_files - starting 10 second delay');
 
   try {
+    const files = Array.from(mockFileSystem.keys());
+    for (let i = 0; i < files.length; i++) {
+      reportProgress?.({ percent: (i / files.length) * 100, message: `Scanning ${files[i]}` });
+      //await new Promise(resolve => setTimeout(resolve, 3000));
+    }
+
     const result = {
       files: Array.from(mockFileSystem.keys()),
       count: mockFileSystem.size,
@@ -105,6 +118,7 @@ export const tools = {
       timeoutMs: 5000, // 15 seconds (shorter than default 30s)
       retries: 1, // Only 1 retry (instead of default 3)
       retryDelayMs: 2000, // 2 second delay (instead of default 1s)
+      outputLimit: { maxChars: 20000, strategy: 'head-tail' }, // keep large files out of the context window
     },
   }),
   edit_file: createTool({
@@ -112,18 +126,23 @@ export const tools = {
     display_name: "Editing file",
     inputSchema: editFileSchema,
     execute: executeEditFile,
+    requiresApproval: true,
   }),
   list_files: createTool({
     description: 'List all available files in the mock file system',
     display_name: "Listing files",
     inputSchema: listFilesSchema,
+    outputSchema: listFilesOutputSchema,
     execute: executeListFiles,
     executionConfig: {
       timeoutMs: 5000, // 15 seconds (shorter than default 30s)
       retries: 1, // Only 1 retry (instead of default 3)
       retryDelayMs: 2000, // 2 second delay (instead of default 1s)
+      cache: { ttlMs: 10000 }, // reuse the listing for 10 seconds within a conversation
     },
   }),
+  ask_user: createAskUserTool(),
+  ...clientTools,
 };
 
 // Create storage instance - use in-memory storage for server side
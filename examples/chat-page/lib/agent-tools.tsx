@@ -1,14 +1,15 @@
-import { ToolCall, ToolResult } from 'react-ai-agent-chat-sdk/config';
+import { ToolProgress } from 'react-ai-agent-chat-sdk';
+import { ToolCall, ToolCallStatus, ToolResult } from 'react-ai-agent-chat-sdk/config';
 
-export function ToolRenderer({ toolCall, toolResult }: { toolCall: ToolCall, toolResult?: ToolResult }) {
-  // Detect error states from tool wrapper
-  const hasError = toolResult?.output?.__toolError;
-  const isTimeout = hasError && toolResult?.output?.__errorType === 'ToolTimeoutError';
-  const isRetryExhausted = hasError && toolResult?.output?.__errorType === 'ToolRetryExhaustedError';
+export function ToolRenderer({ toolCall, toolResult, toolStatus }: { toolCall: ToolCall, toolResult?: ToolResult, toolStatus?: ToolCallStatus }) {
+  // Failed calls carry a ToolErrorResult
+  const error = toolResult?.error;
+  const hasError = !!error;
+  const isRunning = toolResult?.output === undefined && !hasError;
 
   const getStatusText = () => {
-    if (isTimeout) return 'Timed out';
-    if (isRetryExhausted) return 'Failed after retries';
+    if (error?.code === 'timeout') return 'Timed out';
+    if (error?.code === 'retries_exhausted') return `Failed after ${error.retries} retries`;
     if (hasError) return 'Error';
     if (toolResult && !hasError && toolResult.output) return 'Completed';
     return 'Running';
@@ -19,10 +20,11 @@ export function ToolRenderer({ toolCall, toolResult }: { toolCall: ToolCall, too
       <div className="tool-renderer-title">
         • Custom Renderer: {toolCall.toolName} - {getStatusText()}
       </div>
-      {toolResult && (
+      {isRunning && toolStatus?.progress && <ToolProgress progress={toolStatus.progress} />}
+      {!isRunning && (
         <pre className="tool-renderer-content">
-          {hasError
-            ? toolResult.output?.error || 'Unknown error occurred'
+          {error
+            ? error.message
             : JSON.stringify(toolResult.output, null, 2)
           }
         </pre>
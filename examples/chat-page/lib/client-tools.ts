@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { createTool } from 'react-ai-agent-chat-sdk/config-client';
+
+// Tools that run in the browser. The server sends them to the model, and AgentChatProvider
+// executes them when called
+export const clientTools = {
+  get_page_selection: createTool({
+    description: 'Get the text the user has selected on the current page',
+    display_name: "Reading selection",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ text: z.string() }),
+    runsOn: 'client',
+    execute: async () => ({ text: window.getSelection()?.toString() ?? '' }),
+  }),
+};
@@ -1,4 +1,4 @@
-import { ChatStorage, ChatMessage, Conversation } from 'react-ai-agent-chat-sdk/config';
+import { AuthPrincipal, ChatStorage, ChatMessage, Conversation } from 'react-ai-agent-chat-sdk/config';
 
 export class LocalStorage implements ChatStorage {
   private readonly storageKey = 'agent-chat-conversations';
@@ -24,8 +24,21 @@ export class LocalStorage implements ChatStorage {
       console.error('Failed to store conversations:', error);
     }
   }
+
+  // Convert string dates back to Date objects (JSON parsing converts dates to strings)
+  private reviveDates(conversation: Conversation): Conversation {
+    return {
+      ...conversation,
+      createdAt: new Date(conversation.createdAt),
+      updatedAt: new Date(conversation.updatedAt),
+      messages: conversation.messages.map(msg => ({
+        ...msg,
+        timestamp: new Date(msg.timestamp),
+      })),
+    };
+  }
   
-  async saveMessage(conversationId: string, message: ChatMessage): Promise<void> {
+  async saveMessage(conversationId: string, message: ChatMessage, principal?: AuthPrincipal): Promise<void> {
     const conversations = this.getStoredConversations();
     
     // Get or create conversation
@@ -36,7 +49,7 @@ export class LocalStorage implements ChatStorage {
         messages: [],
         createdAt: new Date(message.timestamp),
         updatedAt: new Date(message.timestamp),
-        metadata: {},
+        metadata: principal ? { ownerId: principal.userId } : {},
       };
     }
     
@@ -48,10 +61,12 @@ export class LocalStorage implements ChatStorage {
       conversation.updatedAt = new Date(conversation.updatedAt);
     }
     
-    // Add message and update timestamps
+    // Add message (continuing from the latest one unless it forks) and update timestamps
+    const latest = conversation.messages[conversation.messages.length - 1];
     conversation.messages.push({
       ...message,
       timestamp: typeof message.timestamp === 'string' ? new Date(message.timestamp) : message.timestamp,
+      parentId: message.parentId !== undefined ? message.parentId : latest?.id ?? null,
     });
     conversation.updatedAt = new Date();
     
@@ -70,42 +85,31 @@ export class LocalStorage implements ChatStorage {
       return null;
     }
     
-    // Convert string dates back to Date objects
-    return {
-      ...conversation,
-      createdAt: typeof conversation.createdAt === 'string' ? new Date(conversation.createdAt) : conversation.createdAt,
-      updatedAt: typeof conversation.updatedAt === 'string' ? new Date(conversation.updatedAt) : conversation.updatedAt,
-      messages: conversation.messages.map(msg => ({
-        ...msg,
-        timestamp: typeof msg.timestamp === 'string' ? new Date(msg.timestamp) : msg.timestamp,
-      })),
-    };
+    return this.reviveDates(conversation);
   }
   
-  async listConversations(limit: number = 50, offset: number = 0): Promise<Conversation[]> {
+  async listConversations(limit: number = 50, offset: number = 0, principal?: AuthPrincipal): Promise<Conversation[]> {
     const conversations = this.getStoredConversations();
     
     return Object.values(conversations)
+      .filter(conversation => !principal || conversation.metadata?.ownerId === principal.userId)
       .sort((a, b) => {
         const dateA = typeof a.updatedAt === 'string' ? new Date(a.updatedAt) : a.updatedAt;
         const dateB = typeof b.updatedAt === 'string' ? new Date(b.updatedAt) : b.updatedAt;
         return dateB.getTime() - dateA.getTime(); // Most recent first
       })
       .slice(offset, offset + limit)
-      .map(conversation => ({
-        ...conversation,
-        createdAt: typeof conversation.createdAt === 'string' ? new Date(conversation.createdAt) : conversation.createdAt,
-        updatedAt: typeof conversation.updatedAt === 'string' ? new Date(conversation.updatedAt) : conversation.updatedAt,
-        messages: conversation.messages.map(msg => ({
-          ...msg,
-          timestamp: typeof msg.timestamp === 'string' ? new Date(msg.timestamp) : msg.timestamp,
-        })),
-      }));
+      .map(conversation => this.reviveDates(conversation));
   }
   
   async createConversation(conversationId: string, metadata: Record<string, unknown> = {}): Promise<Conversation> {
     const conversations = this.getStoredConversations();
     
+    // Never replace a conversation that already exists
+    if (conversations[conversationId]) {
+      return this.reviveDates(conversations[conversationId]);
+    }
+    
     const conversation: Conversation = {
       id: conversationId,
       messages: [],
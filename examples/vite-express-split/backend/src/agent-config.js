@@ -107,6 +107,7 @@ export const tools = {
     display_name: "Editing file",
     inputSchema: editFileSchema,
     execute: executeEditFile,
+    requiresApproval: true,
   }),
   list_files: createTool({
     description: 'List all available files in the mock file system',
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { AgentChat } from 'react-ai-agent-chat-sdk';
+import { AgentChat, ConversationList } from 'react-ai-agent-chat-sdk';
 import 'react-ai-agent-chat-sdk/agent-chat.css';
 import { agentChatClientConfig } from './lib/agent-chat-client-config';
 import { ChatDebugPanel } from './lib/chat-debug-panel';
@@ -17,6 +17,11 @@ export default function App() {
     console.log('🆔 [App] Loaded conversation ID:', id);
     setConversationId(id);
   }, []);
+
+  const handleSelectConversation = (id) => {
+    localStorage.setItem('current-conversation-id', id);
+    setConversationId(id);
+  };
   
   // Don't render chat until conversation ID is loaded
   if (!conversationId) {
@@ -32,8 +37,16 @@ export default function App() {
   
   return (
     <div className="flex flex-col h-screen bg-gray-900">
-      <div className="flex-1">
-        <AgentChat config={agentChatClientConfig} conversationId={conversationId} />
+      <div className="flex flex-1 min-h-0">
+        <ConversationList
+          className="w-64 overflow-y-auto"
+          config={agentChatClientConfig}
+          activeConversationId={conversationId}
+          onSelectConversation={handleSelectConversation}
+        />
+        <div className="flex-1">
+          <AgentChat config={agentChatClientConfig} conversationId={conversationId} />
+        </div>
       </div>
       <ChatDebugPanel conversationId={conversationId} />
     </div>
@@ -9,6 +9,7 @@ export const agentChatClientConfig = {
   },
   route: "http://localhost:3001/api/chat",
   historyRoute: "http://localhost:3001/api/chat/history",
+  conversationsRoute: "http://localhost:3001/api/chat/conversations",
   toolRenderers: {
     'list_files': ToolRenderer,
   },
@@ -1,17 +1,65 @@
 'use client';
 
 import { useState } from 'react';
-import { useChatConfig } from './chat-config-provider';
+import { useChatState } from './chat-config-provider';
 import { getToolRenderer, hasCustomRenderer as hasCustomRendererFn } from './tool-renderer-registry';
-import { ToolCall, ToolResult } from './config';
+import { ToolProgress } from './tool-progress';
+import { AskUserForm } from './ask-user-form';
+import { askUserInputSchema } from './ask-user';
+import { ToolCall, ToolCallStatus, ToolModelOutput, ToolResult } from './config';
+import type { ToolErrorCode, ToolErrorIssue } from './tool-errors';
+
+const ERROR_STATUS_TEXT: Record<ToolErrorCode, string> = {
+  timeout: 'Timed out',
+  retries_exhausted: 'Failed after retries',
+  validation: 'Invalid input',
+  unauthorized: 'Not allowed',
+  cancelled: 'Stopped',
+  denied: 'Denied',
+  unavailable: 'Temporarily unavailable',
+  budget_exceeded: 'Limit reached',
+  failed: 'Error',
+};
 
 interface FunctionCallBlockProps {
   toolCall: ToolCall;
   toolResult?: ToolResult;
+  toolStatus?: ToolCallStatus;
+}
+
+interface InputField {
+  name: string; // empty for issues with the input as a whole
+  value?: unknown;
+  issues: ToolErrorIssue[];
 }
 
-export const FunctionCallBlock = ({ toolCall, toolResult }: FunctionCallBlockProps) => {
-  const { tools } = useChatConfig();
+// One row per top-level input field, including required ones the model left out
+const getInputFields = (input: any, issues: ToolErrorIssue[]): InputField[] => {
+  const values = input && typeof input === 'object' ? input : {};
+  const names = new Set([...Object.keys(values), ...issues.map(issue => String(issue.path[0] ?? ''))]);
+
+  return [...names].map(name => ({
+    name,
+    value: values[name],
+    issues: issues.filter(issue => String(issue.path[0] ?? '') === name),
+  }));
+};
+
+// What the model got instead of the full result, which is what this block shows
+const getModelOutputNote = ({ strategy, originalLength }: ToolModelOutput) => {
+  const total = originalLength.toLocaleString();
+  switch (strategy) {
+    case 'summary':
+      return `The model saw a summary of this result (${total} characters)`;
+    case 'head-tail':
+      return `The model saw the start and end of this result, not all ${total} characters`;
+    default:
+      return `The model saw the start of this result, not all ${total} characters`;
+  }
+};
+
+export const FunctionCallBlock = ({ toolCall, toolResult, toolStatus }: FunctionCallBlockProps) => {
+  const { config: { tools }, respondToToolApproval, submitToolResult } = useChatState();
 
   // Check if tool has a custom renderer - let it handle all states including errors
   if (toolCall.toolName in tools && tools[toolCall.toolName].renderKey) {
@@ -19,17 +67,24 @@ export const FunctionCallBlock = ({ toolCall, toolResult }: FunctionCallBlockPro
 
     if (renderKey && hasCustomRendererFn(renderKey)) {
       const CustomRenderer = getToolRenderer(renderKey);
-      return <CustomRenderer toolCall={toolCall} toolResult={toolResult} />;
+      return <CustomRenderer toolCall={toolCall} toolResult={toolResult} toolStatus={toolStatus} />;
     }
   }
 
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isSubmittingApproval, setIsSubmittingApproval] = useState(false);
 
   // Detect error states from tool wrapper
-  const hasError = toolResult?.output?.__toolError;
-  const isTimeout = hasError && toolResult?.output?.__errorType === 'ToolTimeoutError';
-  const isRetryExhausted = hasError && toolResult?.output?.__errorType === 'ToolRetryExhaustedError';
+  const error = toolResult?.error;
+  const hasError = !!error;
   const isSuccess = toolResult && !hasError && toolResult.output;
+  const isAwaitingApproval = toolStatus?.approval === 'pending' && !toolResult?.output && !hasError;
+  const isRunning = toolResult?.output === undefined && !hasError;
+  const progress = isRunning && !isAwaitingApproval ? toolStatus?.progress : undefined;
+  // Calls to a 'user' tool wait for the user; ask_user-shaped input gets the built-in form
+  const isAwaitingAnswer = tools[toolCall.toolName]?.runsOn === 'user' && toolResult?.output === undefined && !hasError;
+  const askUserInput = isAwaitingAnswer ? askUserInputSchema.safeParse(toolCall.input) : undefined;
+  const modelOutput = toolStatus?.modelOutput;
 
   const getFunctionName = (toolName: string) => {
     if (toolName in tools) {
@@ -43,13 +98,19 @@ export const FunctionCallBlock = ({ toolCall, toolResult }: FunctionCallBlockPro
   };
 
   const getStatusText = () => {
-    if (isTimeout) return 'Timed out';
-    if (isRetryExhausted) return 'Failed after retries';
-    if (hasError) return 'Error';
+    if (error) return ERROR_STATUS_TEXT[error.code];
     if (isSuccess) return 'Completed';
+    if (isAwaitingApproval) return 'Awaiting approval';
+    if (isAwaitingAnswer) return 'Waiting for your answer';
     return 'Running';
   };
 
+  const handleApproval = async (approved: boolean) => {
+    setIsSubmittingApproval(true);
+    await respondToToolApproval(toolCall.toolCallId, approved);
+    setIsSubmittingApproval(false);
+  };
+
   const getFileName = (input: any) => {
     if (input?.file_path) return input.file_path;
     if (toolCall?.toolName === 'list_files') return 'directory';
@@ -72,25 +133,109 @@ export const FunctionCallBlock = ({ toolCall, toolResult }: FunctionCallBlockPro
           <span className="function-call-status-text">
             {getStatusText()}
           </span>
+          {isSuccess && toolStatus?.cached && (
+            <span className="function-call-cached-badge" title="Served from the cache, the tool didn't run again">
+              cached
+            </span>
+          )}
+          {isSuccess && modelOutput && (
+            <span className="function-call-truncated-badge" title={getModelOutputNote(modelOutput)}>
+              {modelOutput.strategy === 'summary' ? 'summarized' : 'truncated'}
+            </span>
+          )}
         </div>
         <div className="function-call-toggle">
           {isExpanded ? '−' : '+'}
         </div>
       </div>
 
+      {isAwaitingApproval && (
+        <div className="function-call-approval">
+          <pre className="function-call-result-content">
+            {JSON.stringify(toolCall.input, null, 2)}
+          </pre>
+          <div className="function-call-approval-actions">
+            <button
+              className="function-call-approval-button function-call-approve"
+              onClick={() => handleApproval(true)}
+              disabled={isSubmittingApproval}
+            >
+              Approve
+            </button>
+            <button
+              className="function-call-approval-button function-call-deny"
+              onClick={() => handleApproval(false)}
+              disabled={isSubmittingApproval}
+            >
+              Deny
+            </button>
+          </div>
+        </div>
+      )}
+
+      {askUserInput?.success && (
+        <div className="function-call-ask-user">
+          <AskUserForm
+            input={askUserInput.data}
+            onSubmit={(answer) => submitToolResult(toolCall.toolCallId, toolCall.toolName, answer)}
+          />
+        </div>
+      )}
+
+      {progress && (
+        <div className="function-call-progress">
+          <ToolProgress progress={progress} />
+        </div>
+      )}
+
+      {isExpanded && progress?.partialOutput !== undefined && (
+        <div className="function-call-result">
+          <div className="function-call-result-label">Partial result:</div>
+          <pre className="function-call-result-content">
+            {typeof progress.partialOutput === 'object'
+              ? JSON.stringify(progress.partialOutput, null, 2)
+              : String(progress.partialOutput)
+            }
+          </pre>
+        </div>
+      )}
+
       {isExpanded && toolResult && (
         <div className="function-call-result">
           <div className="function-call-result-label">
             {hasError ? 'Error:' : 'Result:'}
           </div>
           <pre className="function-call-result-content">
-            {hasError
-              ? toolResult.output?.error || 'Unknown error occurred'
+            {error
+              ? error.message || 'Unknown error occurred'
               : typeof toolResult.output === 'object'
                 ? JSON.stringify(toolResult.output, null, 2)
                 : String(toolResult.output)
             }
           </pre>
+          {isSuccess && modelOutput && (
+            <div className="function-call-model-output-note">{getModelOutputNote(modelOutput)}</div>
+          )}
+          {error?.code === 'validation' && error.issues && (
+            <div className="function-call-input-fields">
+              {getInputFields(toolCall.input, error.issues).map(field => (
+                <div
+                  key={field.name}
+                  className={`function-call-input-field ${field.issues.length > 0 ? 'function-call-input-field-invalid' : ''}`}
+                >
+                  <span className="function-call-input-field-name">{field.name || '(input)'}</span>
+                  <span className="function-call-input-field-value">
+                    {field.value === undefined ? 'missing' : JSON.stringify(field.value)}
+                  </span>
+                  {field.issues.map((issue, index) => (
+                    <div key={index} className="function-call-input-field-issue">
+                      {issue.path.length > 1 ? `${issue.path.join('.')}: ` : ''}{issue.message}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
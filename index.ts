@@ -7,18 +7,24 @@ export { ChatInput } from './chat-input';
 export { MessagePart } from './message-part';
 export { FunctionCallBlock } from './function-call-block';
 export { ThinkingBubble } from './thinking-bubble';
+export { ToolProgress } from './tool-progress';
+export { AskUserForm } from './ask-user-form';
 export { DebugPanel } from './debug-panel';
 
 // Layout components
 export { ChatLayout, ChatMessagesContainer } from './chat-layout';
+export { ConversationList } from './conversation-list';
 
 // Context and configuration
 export { AgentChatProvider, useChatConfig, useChatState } from './chat-config-provider';
-export { createTool, makeAgentChatConfig } from './config';
-export type { AgentChatConfig, AgentChatRouteConfig } from './config';
+export { createTool, createAskUserTool, makeAgentChatConfig } from './config';
+export type { AgentChatConfig, AgentChatRouteConfig, ToolErrorCode, ToolErrorResult } from './config';
+export type { ToolRendererProps, InferToolInput, InferToolOutput } from './config';
+export type { AskUserAnswer, AskUserInput } from './config';
+export { isToolErrorResult, parseToolErrorResult, getToolPartError } from './config';
 
 // Tool registry (for advanced usage)
 export { registerToolRenderer, getToolRenderer, hasCustomRenderer } from './tool-renderer-registry';
 
 // API route handlers
-export { AgentChatRoute, chatRoute, chatHistoryRoute } from './api';
\ No newline at end of file
+export { AgentChatRoute, chatRoute, chatHistoryRoute, chatStreamRoute, conversationsRoute } from './api';
\ No newline at end of file
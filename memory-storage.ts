@@ -1,4 +1,4 @@
-import { ChatStorage, ChatMessage, Conversation } from './config';
+import { AuthPrincipal, ChatStorage, ChatMessage, Conversation } from './config';
 
 // In-memory storage for server-side use
 export class MemoryStorage implements ChatStorage {
@@ -7,8 +7,17 @@ export class MemoryStorage implements ChatStorage {
   constructor() {
     this.conversations = {};
   }
+
+  // Hand out copies so callers can't mutate stored conversations
+  private snapshot(conversation: Conversation): Conversation {
+    return {
+      ...conversation,
+      messages: [...conversation.messages],
+      metadata: { ...conversation.metadata },
+    };
+  }
   
-  async saveMessage(conversationId: string, message: ChatMessage): Promise<void> {
+  async saveMessage(conversationId: string, message: ChatMessage, principal?: AuthPrincipal): Promise<void> {
     // Get or create conversation
     let conversation = this.conversations[conversationId];
     if (!conversation) {
@@ -17,12 +26,16 @@ export class MemoryStorage implements ChatStorage {
         messages: [],
         createdAt: new Date(message.timestamp),
         updatedAt: new Date(message.timestamp),
-        metadata: {},
+        metadata: principal ? { ownerId: principal.userId } : {},
       };
     }
     
-    // Add message and update timestamps
-    conversation.messages.push(message);
+    // Add message (continuing from the latest one unless it forks) and update timestamps
+    const latest = conversation.messages[conversation.messages.length - 1];
+    conversation.messages.push({
+      ...message,
+      parentId: message.parentId !== undefined ? message.parentId : latest?.id ?? null,
+    });
     conversation.updatedAt = new Date();
     
     // Store updated conversation
@@ -32,19 +45,43 @@ export class MemoryStorage implements ChatStorage {
     console.log(`💾 [MemoryStorage] Conversation now has ${conversation.messages.length} messages`);
   }
   
+  async replaceMessage(conversationId: string, message: ChatMessage): Promise<void> {
+    const conversation = this.conversations[conversationId];
+    const index = conversation?.messages.findIndex(existing => existing.id === message.id) ?? -1;
+    if (index === -1) {
+      throw new Error(`Message ${message.id} not found in conversation ${conversationId}`);
+    }
+    
+    const existing = conversation.messages[index];
+    conversation.messages[index] = {
+      ...message,
+      parentId: message.parentId !== undefined ? message.parentId : existing.parentId,
+    };
+    conversation.updatedAt = new Date();
+    console.log(`✏️ [MemoryStorage] Replaced message ${message.id} in conversation ${conversationId}`);
+  }
+  
   async getConversation(conversationId: string): Promise<Conversation | null> {
     const conversation = this.conversations[conversationId];
     console.log(`🔍 [MemoryStorage] Getting conversation ${conversationId}:`, conversation ? `${conversation.messages.length} messages` : 'not found');
-    return conversation || null;
+    return conversation ? this.snapshot(conversation) : null;
   }
   
-  async listConversations(limit: number = 50, offset: number = 0): Promise<Conversation[]> {
+  async listConversations(limit: number = 50, offset: number = 0, principal?: AuthPrincipal): Promise<Conversation[]> {
     return Object.values(this.conversations)
+      .filter(conversation => !principal || conversation.metadata?.ownerId === principal.userId)
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()) // Most recent first
-      .slice(offset, offset + limit);
+      .slice(offset, offset + limit)
+      .map(conversation => this.snapshot(conversation));
   }
   
   async createConversation(conversationId: string, metadata: Record<string, any> = {}): Promise<Conversation> {
+    // Never replace a conversation that already exists
+    const existing = this.conversations[conversationId];
+    if (existing) {
+      return this.snapshot(existing);
+    }
+
     const conversation: Conversation = {
       id: conversationId,
       messages: [],
@@ -56,7 +93,20 @@ export class MemoryStorage implements ChatStorage {
     this.conversations[conversationId] = conversation;
     console.log(`📝 [MemoryStorage] Created new conversation ${conversationId}`);
     
-    return conversation;
+    return this.snapshot(conversation);
+  }
+  
+  async updateConversation(conversationId: string, metadata: Record<string, any>): Promise<Conversation> {
+    const conversation = this.conversations[conversationId];
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    
+    conversation.metadata = { ...conversation.metadata, ...metadata };
+    conversation.updatedAt = new Date();
+    console.log(`✏️ [MemoryStorage] Updated conversation ${conversationId}`);
+    
+    return this.snapshot(conversation);
   }
   
   async deleteConversation(conversationId: string): Promise<void> {
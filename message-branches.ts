@@ -0,0 +1,74 @@
+import type { UIMessage } from 'ai';
+
+export interface MessageBranchNode {
+  message: UIMessage;
+  parentId: string | null;
+  order: number; // insertion order; the newest child is the branch shown by default
+}
+
+// Every known message of a conversation keyed by id, linked to the message it follows
+export type MessageBranchTree = Record<string, MessageBranchNode>;
+
+// Add or update one message, returns the same tree when nothing changed
+export function addToBranchTree(tree: MessageBranchTree, message: UIMessage, parentId: string | null): MessageBranchTree {
+  const node = tree[message.id];
+  if (node && node.message === message && node.parentId === parentId) {
+    return tree;
+  }
+
+  return {
+    ...tree,
+    [message.id]: {
+      message,
+      parentId,
+      order: node ? node.order : Object.keys(tree).length,
+    },
+  };
+}
+
+// Record a linear path of messages, each following the one before it
+export function addPathToBranchTree(tree: MessageBranchTree, path: UIMessage[]): MessageBranchTree {
+  return path.reduce(
+    (current, message, index) => addToBranchTree(current, message, index > 0 ? path[index - 1].id : null),
+    tree
+  );
+}
+
+// Ids of the messages sharing a parent with the given one (itself included), oldest first
+export function getSiblingIds(tree: MessageBranchTree, messageId: string): string[] {
+  const node = tree[messageId];
+  if (!node) {
+    return [];
+  }
+
+  return Object.entries(tree)
+    .filter(([, sibling]) => sibling.parentId === node.parentId)
+    .sort(([, a], [, b]) => a.order - b.order)
+    .map(([id]) => id);
+}
+
+// The branch through the given message: its ancestors, the message, then the newest
+// descendants below it
+export function getBranchPath(tree: MessageBranchTree, messageId: string): UIMessage[] {
+  const path: UIMessage[] = [];
+
+  let node: MessageBranchNode | undefined = tree[messageId];
+  while (node) {
+    path.unshift(node.message);
+    node = node.parentId ? tree[node.parentId] : undefined;
+  }
+
+  let currentId = messageId;
+  while (true) {
+    const children = Object.entries(tree)
+      .filter(([, node]) => node.parentId === currentId)
+      .sort(([, a], [, b]) => b.order - a.order);
+    if (children.length === 0) {
+      break;
+    }
+    currentId = children[0][0];
+    path.push(children[0][1].message);
+  }
+
+  return path;
+}
@@ -0,0 +1,31 @@
+import type { UIMessage } from 'ai';
+import { makeToolErrorResult } from './tool-errors';
+
+const INTERRUPTED_TOOL_MESSAGE = 'Stopped before the tool finished';
+
+// Mark a partially streamed reply as stopped. Tool calls that never finished get a cancelled
+// ToolErrorResult, so the conversation can still be sent back to the model
+export function markMessageInterrupted(message: UIMessage): UIMessage {
+  return {
+    ...message,
+    metadata: { ...(message.metadata as Record<string, unknown> | undefined), interrupted: true },
+    parts: message.parts.map((part: any) => {
+      const isUnfinishedTool = part.type.startsWith('tool-') &&
+        (part.state === 'input-streaming' || part.state === 'input-available');
+      if (!isUnfinishedTool) {
+        return part;
+      }
+
+      return {
+        ...part,
+        state: 'output-available',
+        input: part.input ?? {},
+        output: makeToolErrorResult({ errorType: 'ToolAbortedError', message: INTERRUPTED_TOOL_MESSAGE }),
+      };
+    }),
+  };
+}
+
+export function isMessageInterrupted(message: UIMessage): boolean {
+  return !!(message.metadata as Record<string, unknown> | undefined)?.interrupted;
+}
@@ -1,13 +1,16 @@
 import { marked } from 'marked';
 import { FunctionCallBlock } from './function-call-block';
+import { ToolCallStatus } from './config';
+import { getToolPartError } from './tool-errors';
 
 interface MessagePartProps {
   part: any;
   partIndex: number;
   messageRole: string;
+  toolStatus?: ToolCallStatus;
 }
 
-export const MessagePart = ({ part, partIndex, messageRole }: MessagePartProps) => {
+export const MessagePart = ({ part, partIndex, messageRole, toolStatus }: MessagePartProps) => {
   if (part.type === 'text') {
     // Only apply markdown rendering for assistant messages
     if (messageRole === 'assistant') {
@@ -37,19 +40,25 @@ export const MessagePart = ({ part, partIndex, messageRole }: MessagePartProps)
       input: part.input,
     };
 
-    const toolResult = {
+    // Failures arrive as a ToolErrorResult output, or as the AI SDK's output-error state. That
+    // output isn't the tool's, so renderers typed from the tool only get it as `error`. A call
+    // that is still running has no result yet
+    const error = getToolPartError(part);
+    const hasResult = part.state === 'output-available' || part.state === 'output-error';
+    const toolResult = hasResult ? {
       toolCallId: part.toolCallId,
       toolName: part.type.replace('tool-', ''),
-      output: part.output,
-      error: part.error || null,
-      isError: part.isError || false,
-    };
+      output: error ? undefined : part.output,
+      error: error ?? undefined,
+      isError: !!error,
+    } : undefined;
 
     return (
       <FunctionCallBlock
         key={partIndex}
         toolCall={toolCall}
         toolResult={toolResult}
+        toolStatus={toolStatus}
       />
     );
   }
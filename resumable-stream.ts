@@ -0,0 +1,98 @@
+import type { UIMessageChunk } from 'ai';
+
+// Buffers the UI message chunks of each reply while it streams, so a client that reloads or
+// loses its connection can replay the reply so far and follow the rest
+export interface StreamStore {
+  // Start buffering a reply, making it the active stream of its conversation
+  createStream(conversationId: string, streamId: string): Promise<void>;
+  appendChunk(streamId: string, chunk: UIMessageChunk): Promise<void>;
+  // The reply is done; it is no longer active and can be dropped
+  completeStream(streamId: string): Promise<void>;
+  // The stream still being generated for a conversation, if any
+  getActiveStreamId(conversationId: string): Promise<string | null>;
+  // Every chunk buffered so far followed by new ones as they arrive, ending with the reply.
+  // Returns null when the stream is unknown or already complete
+  readStream(streamId: string): Promise<ReadableStream<UIMessageChunk> | null>;
+}
+
+interface BufferedStream {
+  conversationId: string;
+  chunks: UIMessageChunk[];
+  done: boolean;
+  listeners: Set<() => void>;
+}
+
+// Keeps streams in process memory, which only works while every request for a conversation
+// reaches the same server instance
+export class MemoryStreamStore implements StreamStore {
+  private streams = new Map<string, BufferedStream>();
+  private activeStreams = new Map<string, string>(); // conversationId -> streamId
+
+  async createStream(conversationId: string, streamId: string): Promise<void> {
+    this.streams.set(streamId, { conversationId, chunks: [], done: false, listeners: new Set() });
+    this.activeStreams.set(conversationId, streamId);
+  }
+
+  async appendChunk(streamId: string, chunk: UIMessageChunk): Promise<void> {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.done) {
+      return;
+    }
+
+    stream.chunks.push(chunk);
+    stream.listeners.forEach(listener => listener());
+  }
+
+  async completeStream(streamId: string): Promise<void> {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return;
+    }
+
+    stream.done = true;
+    stream.listeners.forEach(listener => listener());
+
+    // Readers that are still replaying keep their own reference
+    this.streams.delete(streamId);
+    if (this.activeStreams.get(stream.conversationId) === streamId) {
+      this.activeStreams.delete(stream.conversationId);
+    }
+  }
+
+  async getActiveStreamId(conversationId: string): Promise<string | null> {
+    return this.activeStreams.get(conversationId) ?? null;
+  }
+
+  async readStream(streamId: string): Promise<ReadableStream<UIMessageChunk> | null> {
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return null;
+    }
+
+    let position = 0;
+    let wake: (() => void) | null = null;
+    const listener = () => wake?.();
+    stream.listeners.add(listener);
+
+    return new ReadableStream<UIMessageChunk>({
+      async pull(controller) {
+        while (position >= stream.chunks.length && !stream.done) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+
+        if (position < stream.chunks.length) {
+          controller.enqueue(stream.chunks[position++]);
+        } else {
+          stream.listeners.delete(listener);
+          controller.close();
+        }
+      },
+      cancel() {
+        stream.listeners.delete(listener);
+      },
+    });
+  }
+}
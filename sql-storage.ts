@@ -0,0 +1,368 @@
+import { AuthPrincipal, ChatStorage, ChatMessage, Conversation } from './config';
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+// Minimal query executor; wrap pg, better-sqlite3, Drizzle, Kysely, ... with it
+export interface SqlExecutor {
+  // Run one statement with `?` placeholders already rewritten for the dialect, returning rows (or [])
+  query(sql: string, params?: unknown[]): Promise<Record<string, any>[]>;
+
+  // Run fn on a single connection between BEGIN and COMMIT. Pooled drivers (e.g. pg.Pool) must
+  // provide this; without it statements are wrapped in BEGIN / COMMIT on the executor itself
+  transaction?<T>(fn: (executor: SqlExecutor) => Promise<T>): Promise<T>;
+}
+
+export interface SqlChatStorageOptions {
+  dialect: SqlDialect;
+  tablePrefix?: string; // prefix for the tables this storage owns, defaults to `agent_chat_`
+}
+
+interface ConversationRow {
+  id: string;
+  created_at: number | string;
+  updated_at: number | string;
+  metadata: string;
+}
+
+interface MessageRow {
+  id: string;
+  role: ChatMessage['role'];
+  content: string;
+  timestamp: number | string;
+  tool_calls: string | null;
+  tool_results: string | null;
+  ui_message_parts: string | null;
+  parent_id: string | null;
+  interrupted: number | string;
+}
+
+// Schema versions, applied in order on startup; never edit a released entry, add a new one
+const migrations = (prefix: string, dialect: SqlDialect): string[][] => {
+  // Millisecond timestamps overflow a 32-bit INTEGER in Postgres
+  const timestampType = dialect === 'postgres' ? 'BIGINT' : 'INTEGER';
+
+  return [
+    [
+      `CREATE TABLE ${prefix}conversations (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT,
+        created_at ${timestampType} NOT NULL,
+        updated_at ${timestampType} NOT NULL,
+        metadata TEXT NOT NULL DEFAULT '{}'
+      )`,
+      `CREATE INDEX ${prefix}conversations_updated_at ON ${prefix}conversations (updated_at DESC)`,
+      `CREATE INDEX ${prefix}conversations_owner_updated_at ON ${prefix}conversations (owner_id, updated_at DESC)`,
+      `CREATE TABLE ${prefix}messages (
+        conversation_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp ${timestampType} NOT NULL,
+        tool_calls TEXT,
+        tool_results TEXT,
+        ui_message_parts TEXT,
+        PRIMARY KEY (conversation_id, seq)
+      )`,
+    ],
+    [
+      // Branching: each message points at the one it follows; existing rows follow the previous seq
+      `ALTER TABLE ${prefix}messages ADD COLUMN parent_id TEXT`,
+      `UPDATE ${prefix}messages SET parent_id = (
+        SELECT previous.id FROM ${prefix}messages AS previous
+        WHERE previous.conversation_id = ${prefix}messages.conversation_id
+          AND previous.seq = ${prefix}messages.seq - 1
+      )`,
+    ],
+    [
+      `ALTER TABLE ${prefix}messages ADD COLUMN interrupted INTEGER NOT NULL DEFAULT 0`,
+    ],
+  ];
+};
+
+// ChatStorage on top of any SQL database reachable through a query executor
+export class SqlChatStorage implements ChatStorage {
+  private prefix: string;
+  private executor: SqlExecutor;
+  private dialect: SqlDialect;
+  private ready: Promise<void>;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(executor: SqlExecutor, options: SqlChatStorageOptions) {
+    this.executor = executor;
+    this.dialect = options.dialect;
+    this.prefix = options.tablePrefix ?? 'agent_chat_';
+    this.ready = this.migrate();
+    this.ready.catch(error => {
+      console.error('❌ [SqlChatStorage] Schema migration failed:', error);
+    });
+  }
+
+  // Resolves once the schema is up to date; every storage method waits for it
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  private async migrate(): Promise<void> {
+    await this.query(this.executor, `CREATE TABLE IF NOT EXISTS ${this.prefix}schema_migrations (
+      version INTEGER PRIMARY KEY,
+      applied_at ${this.dialect === 'postgres' ? 'BIGINT' : 'INTEGER'} NOT NULL
+    )`);
+
+    const [row] = await this.query(this.executor, `SELECT MAX(version) AS version FROM ${this.prefix}schema_migrations`);
+    const currentVersion = Number(row?.version ?? 0);
+    const pending = migrations(this.prefix, this.dialect).slice(currentVersion);
+
+    for (const [index, statements] of pending.entries()) {
+      const version = currentVersion + index + 1;
+      await this.runTransaction(async tx => {
+        for (const statement of statements) {
+          await this.query(tx, statement);
+        }
+        await this.query(tx, `INSERT INTO ${this.prefix}schema_migrations (version, applied_at) VALUES (?, ?)`, [version, Date.now()]);
+      });
+      console.log(`🗄️ [SqlChatStorage] Applied schema migration ${version}`);
+    }
+  }
+
+  // Rewrite `?` placeholders for the dialect and run the statement
+  private query(executor: SqlExecutor, sql: string, params: unknown[] = []): Promise<Record<string, any>[]> {
+    if (this.dialect === 'postgres') {
+      let index = 0;
+      sql = sql.replace(/\?/g, () => `$${++index}`);
+    }
+    return executor.query(sql, params);
+  }
+
+  private runTransaction<T>(fn: (executor: SqlExecutor) => Promise<T>): Promise<T> {
+    if (this.executor.transaction) {
+      return this.executor.transaction(fn);
+    }
+
+    // A single shared connection can only hold one transaction at a time, so queue them
+    const run = this.transactionQueue.then(async () => {
+      await this.executor.query('BEGIN');
+      try {
+        const result = await fn(this.executor);
+        await this.executor.query('COMMIT');
+        return result;
+      } catch (error) {
+        await this.executor.query('ROLLBACK');
+        throw error;
+      }
+    });
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async transaction<T>(fn: (executor: SqlExecutor) => Promise<T>): Promise<T> {
+    await this.ready;
+    return this.runTransaction(fn);
+  }
+
+  private toConversation(row: ConversationRow, messages: ChatMessage[]): Conversation {
+    return {
+      id: row.id,
+      messages,
+      createdAt: new Date(Number(row.created_at)),
+      updatedAt: new Date(Number(row.updated_at)),
+      metadata: JSON.parse(row.metadata),
+    };
+  }
+
+  private toMessage(row: MessageRow): ChatMessage {
+    const message: ChatMessage = {
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      timestamp: new Date(Number(row.timestamp)),
+      parentId: row.parent_id,
+    };
+    if (row.tool_calls !== null) message.toolCalls = JSON.parse(row.tool_calls);
+    if (row.tool_results !== null) message.toolResults = JSON.parse(row.tool_results);
+    if (row.ui_message_parts !== null) message.uiMessageParts = JSON.parse(row.ui_message_parts);
+    if (Number(row.interrupted)) message.interrupted = true;
+    return message;
+  }
+
+  // Column values shared by inserts and updates: id, role, content, timestamp, tool_calls, tool_results,
+  // ui_message_parts, interrupted
+  private messageValues(message: ChatMessage): unknown[] {
+    return [
+      message.id,
+      message.role,
+      message.content,
+      new Date(message.timestamp).getTime(),
+      message.toolCalls ? JSON.stringify(message.toolCalls) : null,
+      message.toolResults ? JSON.stringify(message.toolResults) : null,
+      message.uiMessageParts ? JSON.stringify(message.uiMessageParts) : null,
+      message.interrupted ? 1 : 0,
+    ];
+  }
+
+  private async getMessages(executor: SqlExecutor, conversationId: string): Promise<ChatMessage[]> {
+    const rows = await this.query(
+      executor,
+      `SELECT id, role, content, timestamp, tool_calls, tool_results, ui_message_parts, parent_id, interrupted
+       FROM ${this.prefix}messages WHERE conversation_id = ? ORDER BY seq`,
+      [conversationId]
+    ) as MessageRow[];
+    return rows.map(row => this.toMessage(row));
+  }
+
+  private async getConversationWith(executor: SqlExecutor, conversationId: string): Promise<Conversation | null> {
+    const [row] = await this.query(
+      executor,
+      `SELECT id, created_at, updated_at, metadata FROM ${this.prefix}conversations WHERE id = ?`,
+      [conversationId]
+    ) as ConversationRow[];
+
+    if (!row) {
+      return null;
+    }
+    return this.toConversation(row, await this.getMessages(executor, conversationId));
+  }
+
+  async saveMessage(conversationId: string, message: ChatMessage, principal?: AuthPrincipal): Promise<void> {
+    const timestamp = new Date(message.timestamp).getTime();
+
+    await this.transaction(async tx => {
+      // Create the conversation on its first message; the upsert also locks the row so
+      // concurrent saves to one conversation get consecutive sequence numbers
+      const metadata = principal ? { ownerId: principal.userId } : {};
+      await this.query(
+        tx,
+        `INSERT INTO ${this.prefix}conversations (id, owner_id, created_at, updated_at, metadata)
+         VALUES (?, ?, ?, ?, ?) ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at`,
+        [conversationId, principal?.userId ?? null, timestamp, Date.now(), JSON.stringify(metadata)]
+      );
+
+      // Continue from the latest message unless the message forks from an earlier one
+      let parentId = message.parentId;
+      if (parentId === undefined) {
+        const [latest] = await this.query(
+          tx,
+          `SELECT id FROM ${this.prefix}messages WHERE conversation_id = ? ORDER BY seq DESC LIMIT 1`,
+          [conversationId]
+        );
+        parentId = latest?.id ?? null;
+      }
+
+      await this.query(
+        tx,
+        `INSERT INTO ${this.prefix}messages
+           (conversation_id, seq, id, role, content, timestamp, tool_calls, tool_results, ui_message_parts, interrupted, parent_id)
+         VALUES (?, (SELECT COALESCE(MAX(seq), -1) + 1 FROM ${this.prefix}messages WHERE conversation_id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [conversationId, conversationId, ...this.messageValues(message), parentId]
+      );
+    });
+
+    console.log(`💾 [SqlChatStorage] Saved message to conversation ${conversationId}:`, message.role, message.content.slice(0, 50) + '...');
+  }
+
+  async replaceMessage(conversationId: string, message: ChatMessage): Promise<void> {
+    await this.transaction(async tx => {
+      const [existing] = await this.query(
+        tx,
+        `SELECT parent_id FROM ${this.prefix}messages WHERE conversation_id = ? AND id = ?`,
+        [conversationId, message.id]
+      ) as { parent_id: string | null }[];
+      if (!existing) {
+        throw new Error(`Message ${message.id} not found in conversation ${conversationId}`);
+      }
+
+      await this.query(
+        tx,
+        `UPDATE ${this.prefix}messages
+         SET id = ?, role = ?, content = ?, timestamp = ?, tool_calls = ?, tool_results = ?, ui_message_parts = ?,
+           interrupted = ?, parent_id = ?
+         WHERE conversation_id = ? AND id = ?`,
+        [
+          ...this.messageValues(message),
+          message.parentId !== undefined ? message.parentId : existing.parent_id,
+          conversationId,
+          message.id,
+        ]
+      );
+      await this.query(tx, `UPDATE ${this.prefix}conversations SET updated_at = ? WHERE id = ?`, [Date.now(), conversationId]);
+    });
+    console.log(`✏️ [SqlChatStorage] Replaced message ${message.id} in conversation ${conversationId}`);
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    await this.ready;
+    return this.getConversationWith(this.executor, conversationId);
+  }
+
+  async listConversations(limit: number = 50, offset: number = 0, principal?: AuthPrincipal): Promise<Conversation[]> {
+    await this.ready;
+
+    const rows = (principal
+      ? await this.query(
+          this.executor,
+          `SELECT id, created_at, updated_at, metadata FROM ${this.prefix}conversations
+           WHERE owner_id = ? ORDER BY updated_at DESC, id LIMIT ? OFFSET ?`,
+          [principal.userId, limit, offset]
+        )
+      : await this.query(
+          this.executor,
+          `SELECT id, created_at, updated_at, metadata FROM ${this.prefix}conversations
+           ORDER BY updated_at DESC, id LIMIT ? OFFSET ?`,
+          [limit, offset]
+        )) as ConversationRow[];
+
+    const conversations: Conversation[] = [];
+    for (const row of rows) {
+      conversations.push(this.toConversation(row, await this.getMessages(this.executor, row.id)));
+    }
+    return conversations;
+  }
+
+  async createConversation(conversationId: string, metadata: Record<string, any> = {}): Promise<Conversation> {
+    const conversation = await this.transaction(async tx => {
+      const now = Date.now();
+      await this.query(
+        tx,
+        `INSERT INTO ${this.prefix}conversations (id, owner_id, created_at, updated_at, metadata)
+         VALUES (?, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+        [conversationId, metadata.ownerId ?? null, now, now, JSON.stringify(metadata)]
+      );
+      return (await this.getConversationWith(tx, conversationId))!;
+    });
+    console.log(`📝 [SqlChatStorage] Created new conversation ${conversationId}`);
+
+    return conversation;
+  }
+
+  async updateConversation(conversationId: string, metadata: Record<string, any>): Promise<Conversation> {
+    const conversation = await this.transaction(async tx => {
+      const [row] = await this.query(
+        tx,
+        `SELECT metadata FROM ${this.prefix}conversations WHERE id = ?`,
+        [conversationId]
+      ) as { metadata: string }[];
+      if (!row) {
+        throw new Error(`Conversation ${conversationId} not found`);
+      }
+
+      const merged = { ...JSON.parse(row.metadata), ...metadata };
+      await this.query(
+        tx,
+        `UPDATE ${this.prefix}conversations SET metadata = ?, owner_id = ?, updated_at = ? WHERE id = ?`,
+        [JSON.stringify(merged), merged.ownerId ?? null, Date.now(), conversationId]
+      );
+      return (await this.getConversationWith(tx, conversationId))!;
+    });
+    console.log(`✏️ [SqlChatStorage] Updated conversation ${conversationId}`);
+
+    return conversation;
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    await this.transaction(async tx => {
+      await this.query(tx, `DELETE FROM ${this.prefix}messages WHERE conversation_id = ?`, [conversationId]);
+      await this.query(tx, `DELETE FROM ${this.prefix}conversations WHERE id = ?`, [conversationId]);
+    });
+    console.log(`🗑️ [SqlChatStorage] Deleted conversation ${conversationId}`);
+  }
+}
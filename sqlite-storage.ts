@@ -0,0 +1,40 @@
+import { SqlChatStorage, SqlExecutor } from './sql-storage';
+
+// Minimal synchronous SQLite API shared by better-sqlite3 and node:sqlite (DatabaseSync)
+export interface SqliteStatement {
+  reader?: boolean; // better-sqlite3 only: false for statements that return no rows
+  run(...params: any[]): unknown;
+  get(...params: any[]): unknown;
+  all(...params: any[]): unknown[];
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStorageOptions {
+  tablePrefix?: string; // prefix for the tables this storage owns, defaults to `agent_chat_`
+}
+
+// Adapt a synchronous SQLite handle to the query executor used by SqlChatStorage
+export function sqliteExecutor(db: SqliteDatabase): SqlExecutor {
+  return {
+    async query(sql, params = []) {
+      const statement = db.prepare(sql);
+      // better-sqlite3 refuses all() on statements that return no data
+      if (statement.reader === false) {
+        statement.run(...params);
+        return [];
+      }
+      return statement.all(...params) as Record<string, any>[];
+    },
+  };
+}
+
+// Durable storage backed by a local SQLite file, for development and single-node deployments
+export class SqliteStorage extends SqlChatStorage {
+  constructor(db: SqliteDatabase, options: SqliteStorageOptions = {}) {
+    super(sqliteExecutor(db), { dialect: 'sqlite', tablePrefix: options.tablePrefix });
+  }
+}
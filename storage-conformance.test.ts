@@ -0,0 +1,72 @@
+import { after, describe, test } from 'node:test';
+import initSqlJs, { type Database } from 'sql.js';
+import { PGlite } from '@electric-sql/pglite';
+import { MemoryStorage } from './memory-storage';
+import { SqlChatStorage } from './sql-storage';
+import { SqliteStorage, type SqliteDatabase } from './sqlite-storage';
+import { chatStorageConformanceCases, runChatStorageConformance, type ChatStorageFactory } from './storage-conformance';
+
+// One test per case, so a failure names the behavior that broke
+function conformanceSuite(name: string, factory: ChatStorageFactory) {
+  describe(name, () => {
+    for (const testCase of chatStorageConformanceCases) {
+      test(testCase.name, async t => {
+        const [result] = await runChatStorageConformance(factory, [testCase]);
+        if (result.status === 'skipped') {
+          t.skip(result.error?.message);
+        }
+      });
+    }
+  });
+}
+
+// sql.js (SQLite compiled to WebAssembly) behind the synchronous API SqliteStorage takes, so the
+// SQLite schema and queries run on every Node version
+function sqlJsDatabase(db: Database): SqliteDatabase {
+  const all = (sql: string, params: any[]) => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Record<string, unknown>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    exec: sql => db.exec(sql),
+    prepare: sql => ({
+      run: (...params) => db.run(sql, params),
+      get: (...params) => all(sql, params)[0],
+      all: (...params) => all(sql, params),
+    }),
+  };
+}
+
+const SQL = await initSqlJs();
+const postgres = new PGlite();
+after(() => postgres.close());
+
+let postgresSchema = 0;
+
+conformanceSuite('MemoryStorage', () => new MemoryStorage());
+
+conformanceSuite('SqliteStorage', async () => {
+  const storage = new SqliteStorage(sqlJsDatabase(new SQL.Database()));
+  await storage.whenReady();
+  return storage;
+});
+
+// A fresh table prefix per case keeps every case on an empty schema in one database
+conformanceSuite('SqlChatStorage (postgres)', async () => {
+  const storage = new SqlChatStorage(
+    { query: async (sql, params) => (await postgres.query<Record<string, any>>(sql, params)).rows },
+    { dialect: 'postgres', tablePrefix: `case_${++postgresSchema}_` }
+  );
+  await storage.whenReady();
+  return storage;
+});
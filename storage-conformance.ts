@@ -0,0 +1,484 @@
+import { ChatStorage, ChatMessage, Conversation } from './config';
+
+// One behavior of the ChatStorage contract, run against a fresh storage instance
+export interface ChatStorageConformanceCase {
+  name: string;
+  run: (storage: ChatStorage) => Promise<void>;
+}
+
+export interface ChatStorageConformanceResult {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  error?: Error;
+}
+
+export type ChatStorageFactory = () => ChatStorage | Promise<ChatStorage>;
+
+export class ChatStorageConformanceError extends Error {
+  constructor(public results: ChatStorageConformanceResult[]) {
+    const failed = results.filter(result => result.status === 'failed');
+    super(
+      `${failed.length} ChatStorage conformance case(s) failed:\n` +
+      failed.map(result => `  - ${result.name}: ${result.error?.message}`).join('\n')
+    );
+    this.name = 'ChatStorageConformanceError';
+  }
+}
+
+// Thrown by a case when the storage does not implement an optional method it needs
+class SkipCase extends Error {}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual(actual: unknown, expected: unknown, message: string): void {
+  const actualJson = JSON.stringify(actual);
+  const expectedJson = JSON.stringify(expected);
+  if (actualJson !== expectedJson) {
+    throw new Error(`${message}: expected ${expectedJson}, got ${actualJson}`);
+  }
+}
+
+function requireMethod<K extends keyof ChatStorage>(storage: ChatStorage, method: K): NonNullable<ChatStorage[K]> {
+  if (typeof storage[method] !== 'function') {
+    throw new SkipCase(`storage does not implement ${String(method)}`);
+  }
+  return (storage[method] as Function).bind(storage);
+}
+
+let messageCounter = 0;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function makeMessage(overrides: Partial<ChatMessage> = {}): ChatMessage {
+  messageCounter++;
+  return {
+    id: `msg_${messageCounter}`,
+    role: 'user',
+    content: `Message ${messageCounter}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, messageCounter)),
+    ...overrides,
+  };
+}
+
+export const chatStorageConformanceCases: ChatStorageConformanceCase[] = [
+  // Messages
+  {
+    name: 'getConversation returns null for an unknown conversation',
+    run: async storage => {
+      assertEqual(await storage.getConversation('conv_missing'), null, 'unknown conversation');
+    },
+  },
+  {
+    name: 'saveMessage creates the conversation and getConversation returns the message',
+    run: async storage => {
+      const message = makeMessage({ content: 'Hello' });
+      await storage.saveMessage('conv_a', message);
+
+      const conversation = await storage.getConversation('conv_a');
+      assert(conversation, 'conversation was not created');
+      assertEqual(conversation.id, 'conv_a', 'conversation id');
+      assertEqual(conversation.messages.length, 1, 'message count');
+      assertEqual(conversation.messages[0].id, message.id, 'message id');
+      assertEqual(conversation.messages[0].role, 'user', 'message role');
+      assertEqual(conversation.messages[0].content, 'Hello', 'message content');
+    },
+  },
+  {
+    name: 'saveMessage records the principal as owner of a new conversation',
+    run: async storage => {
+      await storage.saveMessage('conv_a', makeMessage(), { userId: 'alice' });
+      await storage.saveMessage('conv_a', makeMessage({ role: 'assistant' }), { userId: 'alice' });
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.metadata?.ownerId, 'alice', 'ownerId');
+    },
+  },
+  {
+    name: 'messages are returned in the order they were saved, not by timestamp',
+    run: async storage => {
+      const timestamp = new Date(Date.UTC(2024, 0, 1));
+      const messages = [
+        makeMessage({ role: 'user', timestamp: new Date(timestamp.getTime() + 2000) }),
+        makeMessage({ role: 'assistant', timestamp }),
+        makeMessage({ role: 'user', timestamp }),
+        makeMessage({ role: 'assistant', timestamp: new Date(timestamp.getTime() + 1000) }),
+      ];
+      for (const message of messages) {
+        await storage.saveMessage('conv_a', message);
+      }
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.messages.map(m => m.id), messages.map(m => m.id), 'message order');
+    },
+  },
+  {
+    name: 'dates round-trip as Date instances',
+    run: async storage => {
+      const message = makeMessage({ timestamp: new Date(Date.UTC(2024, 4, 17, 9, 30, 15, 250)) });
+      await storage.saveMessage('conv_a', message);
+
+      const check = (conversation: Conversation | null | undefined, source: string) => {
+        assert(conversation, `${source}: conversation missing`);
+        assert(conversation.createdAt instanceof Date, `${source}: createdAt is not a Date`);
+        assert(conversation.updatedAt instanceof Date, `${source}: updatedAt is not a Date`);
+        assert(!isNaN(conversation.createdAt.getTime()), `${source}: createdAt is an invalid Date`);
+        assert(!isNaN(conversation.updatedAt.getTime()), `${source}: updatedAt is an invalid Date`);
+
+        const timestamp = conversation.messages[0]?.timestamp;
+        assert(timestamp instanceof Date, `${source}: message timestamp is not a Date`);
+        assertEqual(timestamp.getTime(), message.timestamp.getTime(), `${source}: message timestamp`);
+      };
+
+      check(await storage.getConversation('conv_a'), 'getConversation');
+      if (storage.listConversations) {
+        check((await storage.listConversations(10, 0))[0], 'listConversations');
+      }
+    },
+  },
+  {
+    name: 'toolCalls, toolResults and uiMessageParts are preserved',
+    run: async storage => {
+      const uiMessageParts = [
+        { type: 'step-start' },
+        { type: 'text', text: 'Reading the file', state: 'done' },
+        {
+          type: 'tool-read_file',
+          toolCallId: 'call_1',
+          state: 'output-available',
+          input: { file_path: 'README.md' },
+          output: { content: '# Title', lines: [1, 2, 3], nested: { empty: null, flag: false } },
+        },
+        { type: 'data-tool-status', id: 'call_1', data: { toolCallId: 'call_1', approval: 'approved' } },
+      ];
+      const message = makeMessage({
+        role: 'assistant',
+        toolCalls: [{ toolCallId: 'call_1', toolName: 'read_file', input: { file_path: 'README.md' } }],
+        toolResults: [{ toolCallId: 'call_1', toolName: 'read_file', output: { content: '# Title' } }],
+        uiMessageParts,
+      });
+      await storage.saveMessage('conv_a', message);
+
+      const stored = (await storage.getConversation('conv_a'))?.messages[0];
+      assertEqual(stored?.toolCalls, message.toolCalls, 'toolCalls');
+      assertEqual(stored?.toolResults, message.toolResults, 'toolResults');
+      assertEqual(stored?.uiMessageParts, uiMessageParts, 'uiMessageParts');
+    },
+  },
+  {
+    name: 'the interrupted marker of a stopped reply is preserved',
+    run: async storage => {
+      await storage.saveMessage('conv_a', makeMessage());
+      await storage.saveMessage('conv_a', makeMessage({ role: 'assistant', content: 'Partial', interrupted: true }));
+      await storage.saveMessage('conv_a', makeMessage({ role: 'assistant' }));
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.messages.map(m => !!m.interrupted), [false, true, false], 'interrupted markers');
+    },
+  },
+  {
+    name: 'mutating a returned conversation does not change the stored one',
+    run: async storage => {
+      await storage.saveMessage('conv_a', makeMessage(), { userId: 'alice' });
+
+      const conversation = await storage.getConversation('conv_a');
+      conversation?.messages.push(makeMessage());
+      if (conversation?.metadata) conversation.metadata.ownerId = 'mallory';
+
+      const stored = await storage.getConversation('conv_a');
+      assertEqual(stored?.messages.length, 1, 'message count');
+      assertEqual(stored?.metadata?.ownerId, 'alice', 'ownerId');
+    },
+  },
+
+  // Branching
+  {
+    name: 'saveMessage without a parentId continues from the latest message',
+    run: async storage => {
+      const messages = [makeMessage(), makeMessage({ role: 'assistant' }), makeMessage()];
+      for (const message of messages) {
+        await storage.saveMessage('conv_a', message);
+      }
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.messages.map(m => m.parentId), [null, messages[0].id, messages[1].id], 'parentIds');
+    },
+  },
+  {
+    name: 'saveMessage with an earlier parentId forks a branch',
+    run: async storage => {
+      const question = makeMessage();
+      const firstReply = makeMessage({ role: 'assistant' });
+      const secondReply = makeMessage({ role: 'assistant', parentId: question.id });
+      const editedQuestion = makeMessage({ parentId: null });
+      await storage.saveMessage('conv_a', question);
+      await storage.saveMessage('conv_a', firstReply);
+      await storage.saveMessage('conv_a', secondReply);
+      await storage.saveMessage('conv_a', editedQuestion);
+      const followUp = makeMessage();
+      await storage.saveMessage('conv_a', followUp);
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(
+        conversation?.messages.map(m => [m.id, m.parentId]),
+        [
+          [question.id, null],
+          [firstReply.id, question.id],
+          [secondReply.id, question.id],
+          [editedQuestion.id, null],
+          [followUp.id, editedQuestion.id],
+        ],
+        'message tree'
+      );
+    },
+  },
+  {
+    name: 'replaceMessage updates a message in place',
+    run: async storage => {
+      const replaceMessage = requireMethod(storage, 'replaceMessage');
+      const messages = [makeMessage(), makeMessage({ role: 'assistant' }), makeMessage()];
+      for (const message of messages) {
+        await storage.saveMessage('conv_a', message);
+      }
+
+      await replaceMessage('conv_a', { ...messages[1], parentId: undefined, content: 'Edited' });
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.messages.map(m => m.id), messages.map(m => m.id), 'message order');
+      assertEqual(conversation?.messages[1].content, 'Edited', 'replaced content');
+      assertEqual(conversation?.messages[1].parentId, messages[0].id, 'kept parentId');
+    },
+  },
+  {
+    name: 'replaceMessage rejects an unknown message',
+    run: async storage => {
+      const replaceMessage = requireMethod(storage, 'replaceMessage');
+      await storage.saveMessage('conv_a', makeMessage());
+
+      let rejected = false;
+      try {
+        await replaceMessage('conv_a', makeMessage());
+      } catch {
+        rejected = true;
+      }
+      assert(rejected, 'replaceMessage resolved for an unknown message');
+      assertEqual((await storage.getConversation('conv_a'))?.messages.length, 1, 'message count');
+    },
+  },
+
+  // Conversation management
+  {
+    name: 'createConversation stores metadata',
+    run: async storage => {
+      const createConversation = requireMethod(storage, 'createConversation');
+      const created = await createConversation('conv_a', { title: 'Plans', ownerId: 'alice' });
+      assertEqual(created.id, 'conv_a', 'created id');
+      assertEqual(created.messages, [], 'created messages');
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.metadata, { title: 'Plans', ownerId: 'alice' }, 'metadata');
+    },
+  },
+  {
+    name: 'createConversation keeps the messages of an existing conversation',
+    run: async storage => {
+      const createConversation = requireMethod(storage, 'createConversation');
+      const message = makeMessage();
+      await storage.saveMessage('conv_a', message, { userId: 'alice' });
+      await createConversation('conv_a', { ownerId: 'bob' });
+
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.messages.map(m => m.id), [message.id], 'messages');
+      assertEqual(conversation?.metadata?.ownerId, 'alice', 'ownerId');
+    },
+  },
+  {
+    name: 'updateConversation merges metadata',
+    run: async storage => {
+      const updateConversation = requireMethod(storage, 'updateConversation');
+      await storage.saveMessage('conv_a', makeMessage(), { userId: 'alice' });
+
+      const updated = await updateConversation('conv_a', { title: 'Renamed' });
+      assertEqual(updated.metadata, { ownerId: 'alice', title: 'Renamed' }, 'merged metadata');
+      assertEqual((await storage.getConversation('conv_a'))?.metadata?.title, 'Renamed', 'stored title');
+    },
+  },
+  {
+    name: 'updateConversation rejects an unknown conversation',
+    run: async storage => {
+      const updateConversation = requireMethod(storage, 'updateConversation');
+      let rejected = false;
+      try {
+        await updateConversation('conv_missing', { title: 'Nope' });
+      } catch {
+        rejected = true;
+      }
+      assert(rejected, 'updateConversation resolved for an unknown conversation');
+      assertEqual(await storage.getConversation('conv_missing'), null, 'unknown conversation');
+    },
+  },
+
+  // Listing and pagination
+  {
+    name: 'listConversations returns the most recently updated first',
+    run: async storage => {
+      const listConversations = requireMethod(storage, 'listConversations');
+      await storage.saveMessage('conv_a', makeMessage());
+      await sleep(5);
+      await storage.saveMessage('conv_b', makeMessage());
+      await sleep(5);
+      await storage.saveMessage('conv_a', makeMessage());
+
+      const conversations = await listConversations(10, 0);
+      assertEqual(conversations.map(c => c.id), ['conv_a', 'conv_b'], 'conversation order');
+    },
+  },
+  {
+    name: 'listConversations only returns conversations owned by the principal',
+    run: async storage => {
+      const listConversations = requireMethod(storage, 'listConversations');
+      await storage.saveMessage('conv_alice', makeMessage(), { userId: 'alice' });
+      await storage.saveMessage('conv_bob', makeMessage(), { userId: 'bob' });
+
+      const conversations = await listConversations(10, 0, { userId: 'alice' });
+      assertEqual(conversations.map(c => c.id), ['conv_alice'], 'owned conversations');
+    },
+  },
+  {
+    name: 'listConversations pages with limit and offset',
+    run: async storage => {
+      const listConversations = requireMethod(storage, 'listConversations');
+      for (let i = 0; i < 7; i++) {
+        await storage.saveMessage(`conv_${i}`, makeMessage());
+        await sleep(2);
+      }
+
+      const all = (await listConversations(100, 0)).map(c => c.id);
+      assertEqual(all.length, 7, 'total conversations');
+      assertEqual(all[0], 'conv_6', 'most recent conversation');
+
+      const pages: string[] = [];
+      for (let offset = 0; offset < 9; offset += 3) {
+        const page = await listConversations(3, offset);
+        assert(page.length <= 3, `page at offset ${offset} exceeds the limit`);
+        pages.push(...page.map(c => c.id));
+      }
+      assertEqual(pages, all, 'concatenated pages');
+      assertEqual((await listConversations(3, 6)).length, 1, 'last page size');
+      assertEqual(await listConversations(3, 7), [], 'page past the end');
+      assertEqual((await listConversations()).map(c => c.id), all, 'default limit and offset');
+    },
+  },
+  {
+    name: 'listConversations applies limit and offset after filtering by principal',
+    run: async storage => {
+      const listConversations = requireMethod(storage, 'listConversations');
+      for (let i = 0; i < 4; i++) {
+        await storage.saveMessage(`conv_alice_${i}`, makeMessage(), { userId: 'alice' });
+        await storage.saveMessage(`conv_bob_${i}`, makeMessage(), { userId: 'bob' });
+        await sleep(2);
+      }
+
+      const page = await listConversations(2, 2, { userId: 'alice' });
+      assertEqual(page.map(c => c.id), ['conv_alice_1', 'conv_alice_0'], 'second page of owned conversations');
+    },
+  },
+
+  // Deletion
+  {
+    name: 'deleteConversation removes the conversation and its messages',
+    run: async storage => {
+      const deleteConversation = requireMethod(storage, 'deleteConversation');
+      await storage.saveMessage('conv_a', makeMessage());
+      await storage.saveMessage('conv_b', makeMessage());
+      await deleteConversation('conv_a');
+
+      assertEqual(await storage.getConversation('conv_a'), null, 'deleted conversation');
+      assertEqual((await storage.getConversation('conv_b'))?.messages.length, 1, 'other conversation');
+      if (storage.listConversations) {
+        assertEqual((await storage.listConversations(10, 0)).map(c => c.id), ['conv_b'], 'listed conversations');
+      }
+    },
+  },
+  {
+    name: 'saving to a deleted conversation starts it over',
+    run: async storage => {
+      const deleteConversation = requireMethod(storage, 'deleteConversation');
+      await storage.saveMessage('conv_a', makeMessage(), { userId: 'alice' });
+      await deleteConversation('conv_a');
+
+      const message = makeMessage();
+      await storage.saveMessage('conv_a', message, { userId: 'bob' });
+      const conversation = await storage.getConversation('conv_a');
+      assertEqual(conversation?.messages.map(m => m.id), [message.id], 'messages');
+      assertEqual(conversation?.metadata?.ownerId, 'bob', 'ownerId');
+    },
+  },
+  {
+    name: 'deleteConversation ignores an unknown conversation',
+    run: async storage => {
+      const deleteConversation = requireMethod(storage, 'deleteConversation');
+      await deleteConversation('conv_missing');
+    },
+  },
+
+  // Concurrency
+  {
+    name: 'concurrent saveMessage calls to one conversation keep every message',
+    run: async storage => {
+      const messages = Array.from({ length: 20 }, (_, i) => makeMessage({ role: i % 2 ? 'assistant' : 'user' }));
+      await Promise.all(messages.map(message => storage.saveMessage('conv_a', message, { userId: 'alice' })));
+
+      const conversation = await storage.getConversation('conv_a');
+      const storedIds = conversation?.messages.map(m => m.id) ?? [];
+      assertEqual([...storedIds].sort(), messages.map(m => m.id).sort(), 'stored messages');
+      assertEqual(conversation?.metadata?.ownerId, 'alice', 'ownerId');
+
+      // Whatever order the backend settled on, it must be stable across reads
+      assertEqual((await storage.getConversation('conv_a'))?.messages.map(m => m.id), storedIds, 'message order');
+    },
+  },
+  {
+    name: 'concurrent saveMessage calls to different conversations do not interfere',
+    run: async storage => {
+      const messages = Array.from({ length: 10 }, () => makeMessage());
+      await Promise.all(messages.map((message, i) => storage.saveMessage(`conv_${i}`, message)));
+
+      for (const [i, message] of messages.entries()) {
+        const conversation = await storage.getConversation(`conv_${i}`);
+        assertEqual(conversation?.messages.map(m => m.id), [message.id], `messages of conv_${i}`);
+      }
+    },
+  },
+];
+
+// Run every conformance case against fresh storages from the factory. Works with any test
+// runner: await it inside a single test, or register chatStorageConformanceCases one by one.
+// Throws ChatStorageConformanceError if a case fails
+export async function runChatStorageConformance(
+  factory: ChatStorageFactory,
+  cases: ChatStorageConformanceCase[] = chatStorageConformanceCases
+): Promise<ChatStorageConformanceResult[]> {
+  const results: ChatStorageConformanceResult[] = [];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run(await factory());
+      results.push({ name: testCase.name, status: 'passed' });
+    } catch (error) {
+      if (error instanceof SkipCase) {
+        results.push({ name: testCase.name, status: 'skipped', error });
+      } else {
+        results.push({ name: testCase.name, status: 'failed', error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+  }
+
+  if (results.some(result => result.status === 'failed')) {
+    throw new ChatStorageConformanceError(results);
+  }
+  return results;
+}
@@ -1,5 +1,11 @@
 // Export MemoryStorage from the current directory
 export { MemoryStorage } from './memory-storage';
+export { SqlChatStorage } from './sql-storage';
+export type { SqlDialect, SqlExecutor, SqlChatStorageOptions } from './sql-storage';
+export { SqliteStorage, sqliteExecutor } from './sqlite-storage';
+export type { SqliteDatabase, SqliteStatement, SqliteStorageOptions } from './sqlite-storage';
+export { MemoryStreamStore } from './resumable-stream';
+export type { StreamStore } from './resumable-stream';
 
 // Re-export storage types for convenience
-export type { ChatStorage, ChatMessage, Conversation } from './config';
\ No newline at end of file
+export type { ChatStorage, ChatMessage, Conversation } from './config';
@@ -0,0 +1,54 @@
+export interface ToolApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+interface PendingApproval {
+  userId: string;
+  resolve: (decision: ToolApprovalDecision) => void; // also clears the timeout and abort listener
+}
+
+// Tool calls currently paused on a human decision, keyed by toolCallId
+const pendingApprovals = new Map<string, PendingApproval>();
+
+// Pause until the user approves or denies the tool call (denied on timeout or when the
+// request is stopped)
+export function waitForToolApproval(
+  toolCallId: string,
+  userId: string,
+  timeoutMs: number,
+  abortSignal?: AbortSignal
+): Promise<ToolApprovalDecision> {
+  return new Promise(resolve => {
+    if (abortSignal?.aborted) {
+      resolve({ approved: false, reason: 'The request was stopped' });
+      return;
+    }
+
+    const settle = (decision: ToolApprovalDecision) => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener('abort', onAbort);
+      pendingApprovals.delete(toolCallId);
+      resolve(decision);
+    };
+    const onAbort = () => settle({ approved: false, reason: 'The request was stopped' });
+    const timer = setTimeout(() => {
+      settle({ approved: false, reason: `No approval received within ${timeoutMs}ms` });
+    }, timeoutMs);
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    pendingApprovals.set(toolCallId, { userId, resolve: settle });
+  });
+}
+
+// Deliver a decision to a paused tool call, returns false if nothing is waiting for it
+// or it belongs to another user
+export function resolveToolApproval(toolCallId: string, userId: string, decision: ToolApprovalDecision): boolean {
+  const pending = pendingApprovals.get(toolCallId);
+  if (!pending || pending.userId !== userId) {
+    return false;
+  }
+
+  pending.resolve(decision);
+  return true;
+}
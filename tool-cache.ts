@@ -0,0 +1,119 @@
+// Where cached tool results are kept. Values are tool outputs, so a shared store needs them to
+// be serializable; get resolves undefined for a missing or expired entry
+export interface ToolCacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+}
+
+export interface ToolCacheConfig {
+  ttlMs: number; // how long a result is served from the cache
+  // 'conversation' (default) reuses results within one conversation only; 'global' shares them
+  // with every conversation and user, for results that don't depend on who asks
+  scope?: 'conversation' | 'global';
+  // Identifies calls that return the same result. Defaults to a hash of the validated input;
+  // return a key of your own to, e.g., ignore fields that don't change the result
+  key?: (input: any) => string;
+  store?: ToolCacheStore; // defaults to a store in process memory, shared by every tool
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Keeps results in process memory, dropping the oldest once maxEntries is reached
+export class MemoryToolCacheStore implements ToolCacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+const defaultToolCacheStore = new MemoryToolCacheStore();
+
+// JSON with object keys sorted, so inputs that differ only in key order share a key
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// SHA-256 where Web Crypto is available (server, and browsers on secure pages); the input
+// itself otherwise, which is just as stable, only longer
+async function hashInput(input: unknown): Promise<string> {
+  const text = stableStringify(input);
+  if (!globalThis.crypto?.subtle) {
+    return text;
+  }
+
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export interface ToolCacheEntryRef {
+  store: ToolCacheStore;
+  key: string;
+}
+
+// The cache entry for a call, or null when it can't be cached: conversation-scoped caching
+// needs a conversation
+export async function getToolCacheEntry(
+  config: ToolCacheConfig,
+  toolName: string,
+  input: unknown,
+  conversationId?: string
+): Promise<ToolCacheEntryRef | null> {
+  const scope = config.scope === 'global' ? 'global' : conversationId && `conversation:${conversationId}`;
+  if (!scope) {
+    return null;
+  }
+
+  const inputKey = config.key ? config.key(input) : await hashInput(input);
+  return { store: config.store ?? defaultToolCacheStore, key: `${scope}:${toolName}:${inputKey}` };
+}
+
+// An unreachable store means running the tool, not failing the call
+export async function readToolCache(entry: ToolCacheEntryRef, toolName: string): Promise<unknown | undefined> {
+  try {
+    return await entry.store.get(entry.key);
+  } catch (error) {
+    console.warn(`Could not read cached result of ${toolName}:`, error);
+    return undefined;
+  }
+}
+
+export async function writeToolCache(entry: ToolCacheEntryRef, value: unknown, ttlMs: number, toolName: string): Promise<void> {
+  try {
+    await entry.store.set(entry.key, value, ttlMs);
+  } catch (error) {
+    console.warn(`Could not cache result of ${toolName}:`, error);
+  }
+}
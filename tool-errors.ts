@@ -0,0 +1,128 @@
+// Shape of a failed tool call, returned as the tool's output so the model and the UI both see
+// what went wrong. Bump the version when fields change meaning
+export const TOOL_ERROR_RESULT_VERSION = 1;
+
+export type ToolErrorCode =
+  | 'timeout'
+  | 'retries_exhausted'
+  | 'validation'
+  | 'unauthorized'
+  | 'cancelled'
+  | 'denied'
+  | 'unavailable'
+  | 'budget_exceeded'
+  | 'failed';
+
+export interface ToolErrorIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export interface ToolErrorResult {
+  __toolError: true;
+  version: typeof TOOL_ERROR_RESULT_VERSION;
+  code: ToolErrorCode;
+  errorType: string; // name of the error class, e.g. ToolTimeoutError
+  message: string;
+  retries: number; // retries made before giving up
+  durationMs: number; // from the start of the call until it failed
+  issues?: ToolErrorIssue[]; // what was wrong with the input (code 'validation') or the result
+  // Fields of the unversioned shape, kept for renderers and stored messages that read them
+  __errorType: string;
+  __errorMessage: string;
+  error: string;
+  success: false;
+}
+
+// Error class names (error.name) and the codes they map to; anything else is 'failed'
+const ERROR_CODES: Record<string, ToolErrorCode> = {
+  ToolTimeoutError: 'timeout',
+  ToolRetryExhaustedError: 'retries_exhausted',
+  ToolValidationError: 'validation',
+  ZodError: 'validation',
+  ToolUnauthorizedError: 'unauthorized',
+  ToolAbortedError: 'cancelled',
+  ToolApprovalDeniedError: 'denied',
+  CircuitOpenError: 'unavailable',
+  ToolBudgetExceededError: 'budget_exceeded',
+};
+
+export function makeToolErrorResult({
+  errorType,
+  message,
+  code = ERROR_CODES[errorType] ?? 'failed',
+  retries = 0,
+  durationMs = 0,
+  issues,
+}: {
+  errorType: string;
+  message: string;
+  code?: ToolErrorCode;
+  retries?: number;
+  durationMs?: number;
+  issues?: ToolErrorIssue[];
+}): ToolErrorResult {
+  return {
+    __toolError: true,
+    version: TOOL_ERROR_RESULT_VERSION,
+    code,
+    errorType,
+    message,
+    retries,
+    durationMs,
+    ...(issues && issues.length > 0 && { issues }),
+    __errorType: errorType,
+    __errorMessage: message,
+    error: message,
+    success: false,
+  };
+}
+
+// Errors that list what was wrong, like ToolValidationError and ZodError
+function hasIssues(error: unknown): error is { issues: ToolErrorIssue[] } {
+  return typeof error === 'object' && error !== null && Array.isArray((error as { issues?: unknown }).issues);
+}
+
+// Turn whatever a tool call threw into a ToolErrorResult. Issues are taken from
+// ToolValidationError, or from a ZodError thrown by the tool itself
+export function toToolErrorResult(error: unknown, details: { retries?: number; durationMs?: number } = {}): ToolErrorResult {
+  const errorType = error instanceof Error ? error.name : 'Error';
+  const message = error instanceof Error ? error.message : String(error);
+  const issues = hasIssues(error)
+    ? error.issues.map(issue => ({ path: issue.path ?? [], message: issue.message }))
+    : undefined;
+  return makeToolErrorResult({ errorType, message, issues, ...details });
+}
+
+export function isToolErrorResult(value: unknown): value is ToolErrorResult {
+  return typeof value === 'object' && value !== null &&
+    (value as ToolErrorResult).__toolError === true &&
+    (value as ToolErrorResult).version === TOOL_ERROR_RESULT_VERSION;
+}
+
+// Read a tool output as a ToolErrorResult, upgrading the unversioned shape saved by older
+// versions. Returns null when the output is not an error
+export function parseToolErrorResult(value: unknown): ToolErrorResult | null {
+  if (isToolErrorResult(value)) {
+    return value;
+  }
+
+  const legacy = value as Partial<ToolErrorResult> | null | undefined;
+  if (typeof legacy !== 'object' || legacy === null || legacy.__toolError !== true) {
+    return null;
+  }
+
+  return makeToolErrorResult({
+    errorType: legacy.__errorType || 'Error',
+    message: legacy.__errorMessage || legacy.error || 'Tool execution failed',
+  });
+}
+
+// The failure of a tool part, whether the wrapper returned it as output or the AI SDK marked the
+// part `output-error` because the tool threw
+export function getToolPartError(part: { state?: string; output?: unknown; errorText?: string }): ToolErrorResult | null {
+  if (part.state === 'output-error') {
+    return makeToolErrorResult({ errorType: 'Error', message: part.errorText || 'Tool execution failed' });
+  }
+  return parseToolErrorResult(part.output);
+}
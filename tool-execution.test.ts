@@ -0,0 +1,255 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { createTool, wrapToolWithTimeoutRetry, type ToolCallContext } from './config-server';
+import { ToolRetryAfterError, type ToolExecutionConfig } from './tool-execution';
+import { ToolLimiter } from './tool-limits';
+import type { ToolErrorResult } from './tool-errors';
+import type { ToolMiddleware } from './tool-middleware';
+
+const executionConfig: ToolExecutionConfig = {
+  timeoutMs: 1000,
+  retries: 0,
+  retryDelayMs: 0,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Circuits and the default cache are shared per tool name, so every test names its own tool
+let toolCount = 0;
+const uniqueToolName = (name: string) => `${name}_${++toolCount}`;
+
+// A tool whose execute is the given function, counting the calls that run at once
+function fakeTool<TOutput>(
+  execute: (input: { query: string }, context: ToolCallContext) => Promise<TOutput>,
+  options: { executionConfig?: Partial<ToolExecutionConfig>; middleware?: ToolMiddleware[] } = {}
+) {
+  const stats = { calls: 0, running: 0, maxRunning: 0 };
+  const tool = createTool({
+    description: 'Test tool',
+    display_name: 'Testing',
+    inputSchema: z.object({ query: z.string() }),
+    ...options,
+    execute: async (input, context) => {
+      stats.calls++;
+      stats.running++;
+      stats.maxRunning = Math.max(stats.maxRunning, stats.running);
+      try {
+        return await execute(input, context);
+      } finally {
+        stats.running--;
+      }
+    },
+  });
+  return { tool, stats };
+}
+
+function callContext(conversationId = 'conv_a'): ToolCallContext {
+  return { toolCallId: `call_${++toolCount}`, principal: { userId: 'alice' }, conversationId };
+}
+
+function asError(output: unknown): ToolErrorResult {
+  return output as ToolErrorResult;
+}
+
+describe('retries', () => {
+  test('a timed out attempt that ignores its abort signal is never overlapped', async () => {
+    let attempt = 0;
+    const { tool, stats } = fakeTool(async () => {
+      attempt++;
+      if (attempt === 1) {
+        // Ignores the abort signal and outlives its timeout
+        await sleep(80);
+        throw new Error('slow');
+      }
+      return { ok: true };
+    }, { executionConfig: { timeoutMs: 50, retries: 1, shouldRetry: () => true } });
+
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('slow'), executionConfig);
+    const output = await wrapped.execute({ query: 'a' }, callContext());
+
+    assert.deepEqual(output, { ok: true });
+    assert.equal(stats.calls, 2);
+    assert.equal(stats.maxRunning, 1);
+  });
+
+  test('an attempt still running after its timeout stops the retries', async () => {
+    const { tool, stats } = fakeTool(async () => {
+      await sleep(300);
+      return { ok: true };
+    }, { executionConfig: { timeoutMs: 50, retries: 2, shouldRetry: () => true } });
+
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('stuck'), executionConfig);
+    const output = asError(await wrapped.execute({ query: 'a' }, callContext()));
+
+    assert.equal(output.code, 'retries_exhausted');
+    assert.equal(stats.calls, 1);
+    assert.equal(stats.maxRunning, 1);
+  });
+
+  test('a retry-after hint sets the delay, and one over maxRetryDelayMs fails the call', async () => {
+    const { tool, stats } = fakeTool(async ({ query }) => {
+      if (stats.calls === 1) {
+        throw new ToolRetryAfterError('rate limited', query === 'short' ? 60 : 10000);
+      }
+      return { ok: true };
+    }, { executionConfig: { retries: 1, retryDelayMs: 0, maxRetryDelayMs: 1000 } });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('rate_limited'), executionConfig);
+
+    const startedAt = Date.now();
+    assert.deepEqual(await wrapped.execute({ query: 'short' }, callContext()), { ok: true });
+    assert.ok(Date.now() - startedAt >= 60);
+
+    stats.calls = 0;
+    const output = asError(await wrapped.execute({ query: 'long' }, callContext()));
+    assert.equal(output.errorType, 'ToolRetryAfterError');
+    assert.equal(stats.calls, 1);
+  });
+
+  test('full jitter randomizes the backoff', async t => {
+    t.mock.method(Math, 'random', () => 0);
+    const { tool, stats } = fakeTool(async () => {
+      if (stats.calls === 1) {
+        throw new Error('flaky');
+      }
+      return { ok: true };
+    }, { executionConfig: { retries: 1, retryDelayMs: 10000, retryJitter: 'full' } });
+
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('jittered'), executionConfig);
+    const startedAt = Date.now();
+
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext()), { ok: true });
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+});
+
+describe('circuit breaker', () => {
+  test('opens at the failure threshold, fails fast, then closes after a successful probe', async () => {
+    let isHealthy = false;
+    const { tool, stats } = fakeTool(async () => {
+      if (!isHealthy) {
+        throw new Error('down');
+      }
+      return { ok: true };
+    }, { executionConfig: { circuitBreaker: { failureThreshold: 2, openDurationMs: 50 } } });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('flaky_service'), executionConfig);
+
+    assert.equal(asError(await wrapped.execute({ query: 'a' }, callContext())).code, 'retries_exhausted');
+    assert.equal(asError(await wrapped.execute({ query: 'a' }, callContext())).code, 'retries_exhausted');
+    assert.equal(asError(await wrapped.execute({ query: 'a' }, callContext())).code, 'unavailable');
+    assert.equal(stats.calls, 2);
+
+    await sleep(60);
+    isHealthy = true;
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext()), { ok: true });
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext()), { ok: true });
+    assert.equal(stats.calls, 4);
+  });
+});
+
+describe('limits', () => {
+  test('calls over maxConcurrency wait for a free slot', async () => {
+    const { tool, stats } = fakeTool(async () => {
+      await sleep(20);
+      return { ok: true };
+    });
+    const limiter = new ToolLimiter({ maxConcurrency: 1 });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('queued'), executionConfig, limiter);
+
+    const outputs = await Promise.all([1, 2, 3].map(() => wrapped.execute({ query: 'a' }, callContext())));
+
+    assert.deepEqual(outputs, [{ ok: true }, { ok: true }, { ok: true }]);
+    assert.equal(stats.maxRunning, 1);
+  });
+
+  test('a conversation over its budget gets budget_exceeded', async () => {
+    const { tool, stats } = fakeTool(async () => ({ ok: true }));
+    const limiter = new ToolLimiter({ maxCallsPerConversation: 2 });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('budgeted'), executionConfig, limiter);
+
+    await wrapped.execute({ query: 'a' }, callContext('conv_a'));
+    await wrapped.execute({ query: 'a' }, callContext('conv_a'));
+    const output = asError(await wrapped.execute({ query: 'a' }, callContext('conv_a')));
+
+    assert.equal(output.code, 'budget_exceeded');
+    assert.equal(stats.calls, 2);
+    // Other conversations have budgets of their own
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext('conv_b')), { ok: true });
+  });
+});
+
+describe('cache', () => {
+  test('reuses results for the same input within a conversation', async () => {
+    const { tool, stats } = fakeTool(async ({ query }) => ({ query }), {
+      executionConfig: { cache: { ttlMs: 1000 } },
+    });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('cached'), executionConfig);
+
+    const first = await wrapped.execute({ query: 'a' }, callContext('conv_a'));
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext('conv_a')), first);
+    assert.equal(stats.calls, 1);
+
+    await wrapped.execute({ query: 'b' }, callContext('conv_a'));
+    await wrapped.execute({ query: 'a' }, callContext('conv_b'));
+    assert.equal(stats.calls, 3);
+  });
+
+  test('global scope shares results across conversations, and failures are not cached', async () => {
+    let shouldFail = true;
+    const { tool, stats } = fakeTool(async () => {
+      if (shouldFail) {
+        throw new Error('down');
+      }
+      return { ok: true };
+    }, { executionConfig: { cache: { ttlMs: 1000, scope: 'global' } } });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('shared'), executionConfig);
+
+    assert.equal(asError(await wrapped.execute({ query: 'a' }, callContext('conv_a'))).code, 'retries_exhausted');
+    shouldFail = false;
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext('conv_a')), { ok: true });
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext('conv_b')), { ok: true });
+    assert.equal(stats.calls, 2);
+  });
+});
+
+describe('middleware', () => {
+  test('route middleware runs outside the tool\'s own, and either can answer the call', async () => {
+    const order: string[] = [];
+    const record = (name: string): ToolMiddleware => async (ctx, next) => {
+      order.push(`${name}:before`);
+      const output = await next();
+      order.push(`${name}:after`);
+      return output;
+    };
+    const shortCircuit: ToolMiddleware = async (ctx, next) => ctx.input.query === 'skip' ? { skipped: true } : next();
+
+    const { tool, stats } = fakeTool(async () => {
+      order.push('tool');
+      return { ok: true };
+    }, { middleware: [record('tool'), shortCircuit] });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('observed'), executionConfig, new ToolLimiter(), [record('route')]);
+
+    assert.deepEqual(await wrapped.execute({ query: 'a' }, callContext()), { ok: true });
+    assert.deepEqual(order, ['route:before', 'tool:before', 'tool', 'tool:after', 'route:after']);
+
+    assert.deepEqual(await wrapped.execute({ query: 'skip' }, callContext()), { skipped: true });
+    assert.equal(stats.calls, 1);
+  });
+});
+
+describe('output limits', () => {
+  test('reports a shortened output for the model and returns the full one', async () => {
+    const content = 'x'.repeat(500);
+    const { tool } = fakeTool(async () => content, { executionConfig: { outputLimit: { maxChars: 100 } } });
+    const wrapped = wrapToolWithTimeoutRetry(tool, uniqueToolName('large'), executionConfig);
+
+    const statuses: unknown[] = [];
+    const output = await wrapped.execute({ query: 'a' }, { ...callContext(), reportStatus: status => statuses.push(status) });
+
+    assert.equal(output, content);
+    const { modelOutput } = statuses.find(status => (status as { modelOutput?: unknown }).modelOutput) as { modelOutput: { value: string; originalLength: number } };
+    assert.equal(modelOutput.originalLength, 500);
+    assert.ok(modelOutput.value.startsWith('x'.repeat(100)));
+    assert.ok(modelOutput.value.length < 500);
+  });
+});
@@ -1,7 +1,28 @@
+import type { CircuitBreakerConfig } from './circuit-breaker';
+import type { ToolCacheConfig } from './tool-cache';
+import type { ToolOutputLimit } from './tool-output-limits';
+
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
 export interface ToolExecutionConfig {
   timeoutMs: number;
   retries: number;
   retryDelayMs: number; // initial delay with exponential backoff
+  maxRetryDelayMs?: number; // cap on any single delay; a longer retry-after hint fails the call
+  retryJitter?: RetryJitter; // randomize delays so failing calls don't retry in lockstep (default 'none')
+  // Whether a failed attempt (1-based) is worth retrying. Defaults to everything except timeouts
+  // and ToolNonRetryableError
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  // Fail fast with CircuitOpenError while a tool keeps failing, instead of paying for every
+  // timeout and retry in each conversation
+  circuitBreaker?: CircuitBreakerConfig;
+  maxConcurrency?: number; // calls of this tool running at once, in this process; more wait
+  maxCallsPerConversation?: number; // calls of this tool a conversation may make
+  // Serve repeated calls with the same input from a cache instead of running the tool again
+  cache?: ToolCacheConfig;
+  // Shorten large outputs before the model sees them; the UI and storage keep the full output
+  outputLimit?: ToolOutputLimit;
+  approvalTimeoutMs?: number; // how long a tool requiring approval waits for a decision
 }
 
 export class ToolTimeoutError extends Error {
@@ -19,51 +40,267 @@ export class ToolRetryExhaustedError extends Error {
   }
 }
 
+export class ToolApprovalDeniedError extends Error {
+  constructor(toolName: string, reason?: string) {
+    super(`Tool "${toolName}" was not approved${reason ? `: ${reason}` : ''}`);
+    this.name = 'ToolApprovalDeniedError';
+  }
+}
+
+// Thrown by a tool for failures that retrying won't fix, e.g. invalid arguments or a 4xx response
+export class ToolNonRetryableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'ToolNonRetryableError';
+    this.cause = options?.cause;
+  }
+}
+
+export interface ToolValidationIssue {
+  path: (string | number)[]; // location of the offending value in the input, empty for the input itself
+  message: string;
+}
+
+// Thrown for input that doesn't match the tool's inputSchema, or by a tool whose input is
+// unusable, e.g. a path outside the allowed directory
+export class ToolValidationError extends ToolNonRetryableError {
+  public readonly issues: ToolValidationIssue[];
+
+  constructor(message: string, options?: { cause?: unknown; issues?: ToolValidationIssue[] }) {
+    super(message, options);
+    this.name = 'ToolValidationError';
+    this.issues = options?.issues ?? [];
+  }
+}
+
+// Thrown when a tool returns a result that doesn't match its outputSchema
+export class ToolOutputValidationError extends ToolNonRetryableError {
+  public readonly issues: ToolValidationIssue[];
+
+  constructor(toolName: string, issues: ToolValidationIssue[]) {
+    super(`Tool "${toolName}" returned an invalid result: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'ToolOutputValidationError';
+    this.issues = issues;
+  }
+}
+
+// Thrown by a tool when the caller may not do what was asked
+export class ToolUnauthorizedError extends ToolNonRetryableError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ToolUnauthorizedError';
+  }
+}
+
+// Thrown by a tool that knows when to try again, e.g. from a 429 or 503 Retry-After header
+export class ToolRetryAfterError extends Error {
+  public readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'ToolRetryAfterError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ToolAbortedError extends Error {
+  constructor(toolName: string) {
+    super(`Tool "${toolName}" was stopped before it finished`);
+    this.name = 'ToolAbortedError';
+  }
+}
+
+// One run of a tool function. `result` settles on completion, timeout or abort; `settled`
+// only once the function itself has returned
+interface ToolAttempt<T> {
+  result: Promise<T>;
+  settled: Promise<void>;
+}
+
+// Attempts that failed before their function returned, by the error they failed with, so a
+// retry can wait for them to stop
+const unsettledAttempts = new WeakMap<Error, Promise<void>>();
+
+// Give the attempt its own signal, aborted on timeout or when the request is aborted, so the
+// tool can stop its work and clean up instead of running on in the background
+function startAttempt<T>(
+  fn: (abortSignal: AbortSignal) => Promise<T>,
+  timeout: number,
+  toolName: string,
+  abortSignal?: AbortSignal
+): ToolAttempt<T> {
+  if (abortSignal?.aborted) {
+    return { result: Promise.reject(new ToolAbortedError(toolName)), settled: Promise.resolve() };
+  }
+
+  const attemptController = new AbortController();
+  const running = Promise.resolve().then(() => fn(attemptController.signal));
+  const settled = running.then(() => undefined, () => undefined);
+
+  const result = new Promise<T>((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener('abort', onAbort);
+    };
+    const fail = (error: Error) => {
+      settle();
+      attemptController.abort(error);
+      unsettledAttempts.set(error, settled);
+      reject(error);
+    };
+    const onAbort = () => fail(new ToolAbortedError(toolName));
+    const timer = setTimeout(() => fail(new ToolTimeoutError(toolName, timeout)), timeout);
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    running.then(
+      value => {
+        settle();
+        resolve(value);
+      },
+      error => {
+        settle();
+        reject(error);
+      }
+    );
+  });
+
+  return { result, settled };
+}
+
+// The abort signal passed to fn fires when the timeout elapses (reason: ToolTimeoutError) or
+// the request is aborted (reason: ToolAbortedError)
 export async function executeWithTimeout<T>(
-  fn: () => Promise<T>,
+  fn: (abortSignal: AbortSignal) => Promise<T>,
   timeout: number,
-  toolName: string
+  toolName: string,
+  abortSignal?: AbortSignal
 ): Promise<T> {
+  return startAttempt(fn, timeout, toolName, abortSignal).result;
+}
+
+// Wait for an attempt that was told to stop to actually finish. Resolves false when it is
+// still running after maxWaitMs
+function waitForSettled(
+  settled: Promise<void>,
+  maxWaitMs: number,
+  toolName: string,
+  abortSignal?: AbortSignal
+): Promise<boolean> {
   return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new ToolAbortedError(toolName));
+      return;
+    }
+
+    const done = (isSettled: boolean) => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve(isSettled);
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ToolAbortedError(toolName));
+    };
+    const timer = setTimeout(() => done(false), maxWaitMs);
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    settled.then(() => done(true));
+  });
+}
+
+// Sleep between retries, cut short when the request is aborted
+function waitForRetry(delayMs: number, toolName: string, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new ToolAbortedError(toolName));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ToolAbortedError(toolName));
+    };
     const timer = setTimeout(() => {
-      reject(new ToolTimeoutError(toolName, timeout));
-    }, timeout);
-
-    fn()
-      .then(result => {
-        clearTimeout(timer);
-        resolve(result);
-      })
-      .catch(error => {
-        clearTimeout(timer);
-        reject(error);
-      });
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
+function isRetryableError(error: Error): boolean {
+  return !(error instanceof ToolTimeoutError) && !(error instanceof ToolNonRetryableError);
+}
+
+// Delay before the given retry (1-based). A retry-after hint wins over the backoff; hints longer
+// than maxRetryDelayMs never get here, the call fails instead
+function getRetryDelay(config: ToolExecutionConfig, retry: number, previousDelay: number, error: Error): number {
+  if (error instanceof ToolRetryAfterError) {
+    return error.retryAfterMs;
+  }
+
+  const maxDelay = config.maxRetryDelayMs ?? Infinity;
+  const backoff = Math.min(maxDelay, config.retryDelayMs * Math.pow(2, retry - 1));
+  switch (config.retryJitter) {
+    case 'full':
+      return Math.round(Math.random() * backoff);
+    case 'decorrelated':
+      // Grows from the previous delay rather than the attempt count
+      return Math.round(Math.min(maxDelay, config.retryDelayMs + Math.random() * (previousDelay * 3 - config.retryDelayMs)));
+    default:
+      return backoff;
+  }
+}
+
+// Run fn, one attempt per call, until it succeeds or the retries run out. An attempt that failed
+// before its work stopped, e.g. on timeout (see executeWithTimeout), is waited for first
 export async function executeWithRetry<T>(
-  fn: () => Promise<T>,
+  fn: (attempt: number) => Promise<T>,
   config: ToolExecutionConfig,
-  toolName: string
+  toolName: string,
+  abortSignal?: AbortSignal
 ): Promise<T> {
+  const shouldRetry = config.shouldRetry ?? isRetryableError;
   let lastError: Error;
+  let previousDelay = config.retryDelayMs;
+  let attempt = 0;
 
-  for (let attempt = 0; attempt <= config.retries; attempt++) {
+  for (; attempt <= config.retries; attempt++) {
     try {
       if (attempt > 0) {
-        // Wait before retry with exponential backoff
-        const delay = config.retryDelayMs * Math.pow(2, attempt - 1);
+        // Wait before retry with exponential backoff (or as long as the tool asked)
+        const delay = getRetryDelay(config, attempt, previousDelay, lastError!);
+        previousDelay = delay;
         console.log(`Retrying ${toolName} (attempt ${attempt + 1}/${config.retries + 1}) after ${delay}ms`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await waitForRetry(delay, toolName, abortSignal);
+
+        // Never run two attempts at once: give up when the last one ignores its abort signal
+        const previousAttempt = unsettledAttempts.get(lastError!) ?? Promise.resolve();
+        if (!(await waitForSettled(previousAttempt, config.timeoutMs, toolName, abortSignal))) {
+          console.warn(`Tool ${toolName} is still running after being aborted, not retrying`);
+          attempt--;
+          break;
+        }
       }
 
-      return await executeWithTimeout(fn, config.timeoutMs, toolName);
+      return await fn(attempt + 1);
     } catch (error) {
+      // A stopped request is not a failure worth retrying
+      if (error instanceof ToolAbortedError || abortSignal?.aborted) {
+        throw error instanceof ToolAbortedError ? error : new ToolAbortedError(toolName);
+      }
+
       lastError = error instanceof Error ? error : new Error(String(error));
       console.warn(`Tool ${toolName} failed on attempt ${attempt + 1}:`, lastError.message);
 
-      // Don't retry on timeout errors or if this is the last attempt
-      if (error instanceof ToolTimeoutError || attempt === config.retries) {
+      // Permanent failures go straight back to the model, without waiting on retries
+      const isHintTooLong = lastError instanceof ToolRetryAfterError &&
+        lastError.retryAfterMs > (config.maxRetryDelayMs ?? Infinity);
+      if (!shouldRetry(lastError, attempt + 1) || isHintTooLong) {
+        throw lastError;
+      }
+
+      if (attempt === config.retries) {
         break;
       }
     }
@@ -71,7 +308,7 @@ export async function executeWithRetry<T>(
 
   // The AI SDK expects us to throw errors for tool failures
   // But let's try returning a structured error result instead
-  const finalError = new ToolRetryExhaustedError(toolName, config.retries, lastError!);
+  const finalError = new ToolRetryExhaustedError(toolName, attempt, lastError!);
   console.log('THROWING FINAL ERROR:', finalError.message);
   throw finalError;
 }
@@ -0,0 +1,179 @@
+import { ToolAbortedError, ToolExecutionConfig, ToolNonRetryableError } from './tool-execution';
+
+// Limits across all tools of a route config. Budgets are per process: each server instance
+// counts its own, and they start over when it restarts
+export interface ToolLimitsConfig {
+  maxConcurrency?: number; // tool calls running at once; more wait for a free slot
+  maxCallsPerConversation?: number; // tool calls a conversation may make in total
+  maxToolTimeMsPerConversation?: number; // time a conversation's tool calls may run in total
+  budgetIdleMs?: number; // a conversation's budget is dropped after this long without tool calls (default 1 day)
+}
+
+const DEFAULT_BUDGET_IDLE_MS = 24 * 60 * 60 * 1000;
+
+// Per-tool limits, set in a tool's executionConfig
+export type ToolCallLimits = Pick<ToolExecutionConfig, 'maxConcurrency' | 'maxCallsPerConversation'>;
+
+export class ToolBudgetExceededError extends ToolNonRetryableError {
+  constructor(toolName: string, reason: string) {
+    super(`Tool "${toolName}" was not run: ${reason}`);
+    this.name = 'ToolBudgetExceededError';
+  }
+}
+
+interface ConversationBudget {
+  calls: number;
+  callsByTool: Map<string, number>;
+  timeMs: number;
+  lastUsedAt: number;
+}
+
+interface PendingCall {
+  toolName: string;
+  limits: ToolCallLimits;
+  conversationId?: string;
+  admit: (release: () => void) => void;
+  reject: (error: Error) => void;
+}
+
+// Hands out slots to tool calls and keeps each conversation's budget. Budgets are kept in
+// process memory, so they hold while every request for a conversation reaches this instance
+// and until the conversation has gone `budgetIdleMs` without tool calls
+export class ToolLimiter {
+  private running = 0;
+  private runningByTool = new Map<string, number>();
+  private budgets = new Map<string, ConversationBudget>();
+  private pending: PendingCall[] = [];
+
+  constructor(private config: ToolLimitsConfig = {}) {}
+
+  // Wait for a free slot and count the call against its conversation. Resolves with the function
+  // to call once the call is done; rejects with ToolBudgetExceededError when over budget
+  acquire(toolName: string, limits: ToolCallLimits, conversationId?: string, abortSignal?: AbortSignal): Promise<() => void> {
+    if (abortSignal?.aborted) {
+      return Promise.reject(new ToolAbortedError(toolName));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending = this.pending.filter(call => call !== pendingCall);
+        reject(new ToolAbortedError(toolName));
+      };
+      const pendingCall: PendingCall = {
+        toolName,
+        limits,
+        conversationId,
+        admit: release => {
+          abortSignal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+        reject: error => {
+          abortSignal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.push(pendingCall);
+      this.admitPending();
+    });
+  }
+
+  // Start every waiting call that fits, in arrival order. Budgets are checked when a call would
+  // start, so calls queued in the same step can't overshoot them together
+  private admitPending(): void {
+    this.dropIdleBudgets();
+    for (const call of [...this.pending]) {
+      const budgetError = this.checkBudget(call);
+      if (budgetError) {
+        this.pending = this.pending.filter(pendingCall => pendingCall !== call);
+        call.reject(budgetError);
+        continue;
+      }
+
+      if (!this.hasFreeSlot(call)) {
+        continue;
+      }
+
+      this.pending = this.pending.filter(pendingCall => pendingCall !== call);
+      call.admit(this.start(call));
+    }
+  }
+
+  private checkBudget({ toolName, limits, conversationId }: PendingCall): ToolBudgetExceededError | null {
+    if (!conversationId) {
+      return null;
+    }
+
+    const budget = this.getBudget(conversationId);
+
+    const { maxCallsPerConversation, maxToolTimeMsPerConversation } = this.config;
+    if (maxCallsPerConversation !== undefined && budget.calls >= maxCallsPerConversation) {
+      return new ToolBudgetExceededError(toolName, `this conversation has used all ${maxCallsPerConversation} tool calls it is allowed`);
+    }
+    if (limits.maxCallsPerConversation !== undefined && (budget.callsByTool.get(toolName) ?? 0) >= limits.maxCallsPerConversation) {
+      return new ToolBudgetExceededError(toolName, `this conversation has used all ${limits.maxCallsPerConversation} calls of this tool it is allowed`);
+    }
+    if (maxToolTimeMsPerConversation !== undefined && budget.timeMs >= maxToolTimeMsPerConversation) {
+      return new ToolBudgetExceededError(toolName, `this conversation has used its ${maxToolTimeMsPerConversation}ms of tool time`);
+    }
+    return null;
+  }
+
+  private hasFreeSlot({ toolName, limits }: PendingCall): boolean {
+    return (this.config.maxConcurrency === undefined || this.running < this.config.maxConcurrency) &&
+      (limits.maxConcurrency === undefined || (this.runningByTool.get(toolName) ?? 0) < limits.maxConcurrency);
+  }
+
+  private start({ toolName, conversationId }: PendingCall): () => void {
+    const startedAt = Date.now();
+    this.running++;
+    this.runningByTool.set(toolName, (this.runningByTool.get(toolName) ?? 0) + 1);
+
+    let budget: ConversationBudget | undefined;
+    if (conversationId) {
+      budget = this.getBudget(conversationId);
+      budget.calls++;
+      budget.callsByTool.set(toolName, (budget.callsByTool.get(toolName) ?? 0) + 1);
+      this.touchBudget(conversationId, budget);
+    }
+
+    let isReleased = false;
+    return () => {
+      if (isReleased) {
+        return;
+      }
+      isReleased = true;
+
+      this.running--;
+      this.runningByTool.set(toolName, this.runningByTool.get(toolName)! - 1);
+      if (budget) {
+        budget.timeMs += Date.now() - startedAt;
+        this.touchBudget(conversationId!, budget);
+      }
+      this.admitPending();
+    };
+  }
+
+  private getBudget(conversationId: string): ConversationBudget {
+    return this.budgets.get(conversationId) ?? { calls: 0, callsByTool: new Map(), timeMs: 0, lastUsedAt: Date.now() };
+  }
+
+  // Move the budget to the end of the map, which keeps budgets ordered from least recently used
+  private touchBudget(conversationId: string, budget: ConversationBudget): void {
+    budget.lastUsedAt = Date.now();
+    this.budgets.delete(conversationId);
+    this.budgets.set(conversationId, budget);
+  }
+
+  // Forget conversations that haven't called a tool for a while, so budgets don't pile up
+  private dropIdleBudgets(): void {
+    const idleSince = Date.now() - (this.config.budgetIdleMs ?? DEFAULT_BUDGET_IDLE_MS);
+    for (const [conversationId, budget] of this.budgets) {
+      if (budget.lastUsedAt >= idleSince) {
+        break;
+      }
+      this.budgets.delete(conversationId);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import type { ToolCallContext } from './config-server';
+import {
+  executeWithRetry,
+  executeWithTimeout,
+  ToolApprovalDeniedError,
+  type ToolExecutionConfig,
+} from './tool-execution';
+import { waitForToolApproval } from './tool-approval';
+import { executeWithCircuitBreaker } from './circuit-breaker';
+import { getToolCacheEntry, readToolCache, writeToolCache } from './tool-cache';
+import type { ToolLimiter } from './tool-limits';
+
+// What a middleware sees of a tool call: the call context plus the tool and its validated input
+export interface ToolMiddlewareContext<TInput = any> extends ToolCallContext {
+  toolName: string;
+  input: TInput;
+  executionConfig: ToolExecutionConfig; // the global config merged with the tool's own
+}
+
+// Runs around a tool call. Call next() to continue down the chain, optionally with a changed
+// context, e.g. to redact input; return without calling it to answer the call yourself. Errors
+// thrown here reach the model as a ToolErrorResult, like errors from the tool
+export type ToolMiddleware<TInput = any, TOutput = any> = (
+  ctx: ToolMiddlewareContext<TInput>,
+  next: (ctx?: ToolMiddlewareContext<TInput>) => Promise<TOutput>
+) => Promise<TOutput>;
+
+// Chain middleware around handler, the first one outermost
+export function composeToolMiddleware<TOutput>(
+  middleware: ToolMiddleware<any, TOutput>[],
+  handler: (ctx: ToolMiddlewareContext) => Promise<TOutput>
+): (ctx: ToolMiddlewareContext) => Promise<TOutput> {
+  return middleware.reduceRight<(ctx: ToolMiddlewareContext) => Promise<TOutput>>(
+    (next, current) => ctx => current(ctx, nextCtx => next(nextCtx ?? ctx)),
+    handler
+  );
+}
+
+// A cached result was approved and paid for already, so it skips approval and limits. Only
+// successful results are cached; failed calls run again next time
+export const cacheMiddleware: ToolMiddleware = async (ctx, next) => {
+  const { cache } = ctx.executionConfig;
+  const entry = cache ? await getToolCacheEntry(cache, ctx.toolName, ctx.input, ctx.conversationId) : null;
+  if (!entry) {
+    return next();
+  }
+
+  const cached = await readToolCache(entry, ctx.toolName);
+  if (cached !== undefined) {
+    ctx.reportStatus?.({ cached: true });
+    return cached;
+  }
+
+  const output = await next();
+  await writeToolCache(entry, output, cache!.ttlMs, ctx.toolName);
+  return output;
+};
+
+// Hold the call until the user answers from the chat UI
+export function approvalMiddleware(
+  requiresApproval: boolean | ((input: any) => boolean | Promise<boolean>) | undefined
+): ToolMiddleware {
+  return async (ctx, next) => {
+    const needsApproval = typeof requiresApproval === 'function'
+      ? await requiresApproval(ctx.input)
+      : !!requiresApproval;
+    if (!needsApproval) {
+      return next();
+    }
+
+    ctx.reportStatus?.({ approval: 'pending' });
+    const decision = await waitForToolApproval(
+      ctx.toolCallId,
+      ctx.principal.userId,
+      ctx.executionConfig.approvalTimeoutMs!,
+      ctx.abortSignal
+    );
+    ctx.reportStatus?.({ approval: decision.approved ? 'approved' : 'denied' });
+
+    if (!decision.approved) {
+      throw new ToolApprovalDeniedError(ctx.toolName, decision.reason);
+    }
+    return next();
+  };
+}
+
+// Over budget calls go back to the model as an error; others may wait for a free slot
+export function limitsMiddleware(limiter: ToolLimiter): ToolMiddleware {
+  return async (ctx, next) => {
+    const release = await limiter.acquire(ctx.toolName, ctx.executionConfig, ctx.conversationId, ctx.abortSignal);
+    try {
+      return await next();
+    } finally {
+      release();
+    }
+  };
+}
+
+export const circuitBreakerMiddleware: ToolMiddleware = (ctx, next) => {
+  const { circuitBreaker } = ctx.executionConfig;
+  return circuitBreaker ? executeWithCircuitBreaker(() => next(), circuitBreaker, ctx.toolName) : next();
+};
+
+// Progress belongs to the attempt that reported it, so it's cleared when the next one starts
+export const retryMiddleware: ToolMiddleware = (ctx, next) =>
+  executeWithRetry(
+    attempt => {
+      if (attempt > 1) {
+        ctx.reportStatus?.({ progress: undefined });
+      }
+      return next();
+    },
+    ctx.executionConfig,
+    ctx.toolName,
+    ctx.abortSignal
+  );
+
+// Each attempt gets its own abort signal, which also fires when it times out. Late progress
+// reports from an attempt that timed out are dropped
+export const timeoutMiddleware: ToolMiddleware = (ctx, next) =>
+  executeWithTimeout(
+    abortSignal => next({
+      ...ctx,
+      abortSignal,
+      reportProgress: ctx.reportProgress && (progress => {
+        if (!abortSignal.aborted) {
+          ctx.reportProgress!(progress);
+        }
+      }),
+    }),
+    ctx.executionConfig.timeoutMs,
+    ctx.toolName,
+    ctx.abortSignal
+  );
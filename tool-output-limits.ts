@@ -0,0 +1,72 @@
+import type { ToolModelOutput } from './config-server';
+import { isToolErrorResult } from './tool-errors';
+
+// Shortens an output that is over the limit, e.g. with a call to a smaller model. Anything
+// still over maxChars is truncated
+export type ToolOutputSummarizer = (
+  text: string,
+  details: { toolName: string; maxChars: number }
+) => string | Promise<string>;
+
+// Caps what the model sees of a tool's output. The full output still reaches the UI and storage
+export interface ToolOutputLimit {
+  maxChars?: number;
+  maxTokens?: number; // estimated at CHARS_PER_TOKEN characters per token
+  // 'truncate' (default) keeps the start, 'head-tail' the start and the end, a function replaces
+  // the output with its summary
+  strategy?: 'truncate' | 'head-tail' | ToolOutputSummarizer;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+// Outputs as the model reads them: strings as they are, anything else as JSON
+function toModelText(output: unknown): string {
+  return typeof output === 'string' ? output : JSON.stringify(output) ?? 'null';
+}
+
+function truncate(text: string, maxChars: number): string {
+  return `${text.slice(0, maxChars)}\n\n[Output truncated: showing the first ${maxChars} of ${text.length} characters]`;
+}
+
+function keepHeadAndTail(text: string, maxChars: number): string {
+  const head = Math.ceil(maxChars / 2);
+  const tail = maxChars - head;
+  return `${text.slice(0, head)}\n\n[... ${text.length - maxChars} characters omitted ...]\n\n${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+// The shortened output the model should see in place of the full one, or null when it fits
+export async function limitToolOutput(
+  output: unknown,
+  limit: ToolOutputLimit,
+  toolName: string
+): Promise<ToolModelOutput | null> {
+  const maxChars = Math.min(limit.maxChars ?? Infinity, (limit.maxTokens ?? Infinity) * CHARS_PER_TOKEN);
+  // Error results are short and the model needs all of them
+  if (!Number.isFinite(maxChars) || isToolErrorResult(output)) {
+    return null;
+  }
+
+  const text = toModelText(output);
+  if (text.length <= maxChars) {
+    return null;
+  }
+
+  const strategy = limit.strategy ?? 'truncate';
+  if (strategy === 'head-tail') {
+    return { value: keepHeadAndTail(text, maxChars), strategy, originalLength: text.length };
+  }
+  if (typeof strategy === 'function') {
+    // A failed summary shouldn't fail a call that succeeded, the model gets the start instead
+    try {
+      const summary = await strategy(text, { toolName, maxChars });
+      return {
+        value: summary.length > maxChars ? truncate(summary, maxChars) : summary,
+        strategy: 'summary',
+        originalLength: text.length,
+      };
+    } catch (error) {
+      console.warn(`Could not summarize output of ${toolName}, truncating it instead:`, error);
+    }
+  }
+  return { value: truncate(text, maxChars), strategy: 'truncate', originalLength: text.length };
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { ToolCallProgress } from './config';
+
+// Progress bar and status line for a running tool; the bar sweeps while the percent is unknown
+export const ToolProgress = ({ progress }: { progress: ToolCallProgress }) => {
+  const hasPercent = typeof progress.percent === 'number';
+
+  return (
+    <div className="tool-progress">
+      <div
+        className={`tool-progress-track ${hasPercent ? '' : 'tool-progress-indeterminate'}`}
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={hasPercent ? Math.round(progress.percent!) : undefined}
+        aria-valuetext={progress.message}
+      >
+        <div className="tool-progress-bar" style={hasPercent ? { width: `${progress.percent}%` } : undefined} />
+      </div>
+      {(progress.message || hasPercent) && (
+        <div className="tool-progress-status">
+          <span className="tool-progress-message">{progress.message}</span>
+          {hasPercent && <span className="tool-progress-percent">{Math.round(progress.percent!)}%</span>}
+        </div>
+      )}
+    </div>
+  );
+};
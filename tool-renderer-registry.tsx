@@ -1,17 +1,18 @@
 'use client';
 
 import React from 'react';
-import { ToolCall, ToolResult } from './config';
+import { InferToolInput, InferToolOutput, ToolRendererProps } from './config';
 
 // Registry for tool renderer components
-const toolRendererRegistry: Record<string, React.ComponentType<{ toolCall: ToolCall; toolResult?: ToolResult }>> = {};
+const toolRendererRegistry: Record<string, React.ComponentType<ToolRendererProps>> = {};
 
-// Register a renderer for a tool
-export const registerToolRenderer = (
+// Register a renderer for a tool. Pass the tool's type to type the renderer's props, e.g.
+// registerToolRenderer<typeof tools.read_file>('read_file', ReadFileRenderer)
+export const registerToolRenderer = <TTool = any>(
   toolName: string,
-  component: React.ComponentType<{ toolCall: ToolCall; toolResult?: ToolResult }>
+  component: React.ComponentType<ToolRendererProps<InferToolInput<TTool>, InferToolOutput<TTool>>>
 ) => {
-  toolRendererRegistry[toolName] = component;
+  toolRendererRegistry[toolName] = component as React.ComponentType<ToolRendererProps>;
 };
 
 // Get a renderer for a tool